@@ -1,12 +1,119 @@
 import * as vscode from 'vscode';
 import { ContextManager } from './services/contextManager';
-import { StatusBarManager } from './ui/statusBar';
+import { StatusBarManager, QUICK_ACTIONS_COMMAND } from './ui/statusBar';
 import { ContinuousLoop, LoopConfig } from './services/continuousLoop';
+import { DecisionLog } from './services/decisionLog';
+import { WorkspaceRegistry } from './services/workspaceRegistry';
+import { ContextTimeline } from './services/contextTimeline';
+import { WorkspaceDashboard } from './ui/workspaceDashboard';
+import { TimelinePanel } from './ui/timelinePanel';
+import { ContextTreeProvider, ContextTreeNode, OPEN_CONTEXT_FILE_COMMAND } from './ui/contextTreeProvider';
+import { ContextCipher, EncryptionKeySource } from './services/contextCipher';
+import { EncryptionKeys } from './services/encryptionKeys';
+import { CredentialStore, CredentialId, CREDENTIAL_LABELS } from './services/credentialStore';
+import { WorkspacePolicy, POLICY_FILE } from './services/workspacePolicy';
+import { ContextSync, SyncOptions } from './services/contextSync';
 
 let contextManager: ContextManager;
 let statusBar: StatusBarManager;
+let sessionTree: ContextTreeProvider;
+let loopRunning = false;
+let contextSync: ContextSync;
+let syncTimer: NodeJS.Timeout | undefined;
 
-export function activate(context: vscode.ExtensionContext) {
+const TRACKING_DISABLED_MESSAGE = 'Persistent Context: tracking is disabled for this workspace';
+
+function syncSettings(): { enabled: boolean; intervalMinutes: number; options: SyncOptions } {
+  const cfg = vscode.workspace.getConfiguration('persistentContext');
+  return {
+    enabled: cfg.get<boolean>('enableSync', false),
+    intervalMinutes: Math.max(0, cfg.get<number>('syncInterval', 30)),
+    options: {
+      remote: cfg.get<string>('syncRemote', '') || undefined,
+      branch: cfg.get<string>('syncBranch', 'main') || 'main',
+    },
+  };
+}
+
+/**
+ * Sync the storage directory. Automatic syncs only run with enableSync and
+ * log failures; `interactive` syncs (the command) always run and report back.
+ */
+async function runSync(reason: string, interactive = false) {
+  if (!interactive && !syncSettings().enabled) return;
+  try {
+    const result = await contextSync.sync(reason);
+    statusBar?.log(
+      `Context sync (${reason}): committed=${result.committed} pulled=${result.pulled} merged=${result.merged.length} pushed=${result.pushed}`
+    );
+    if (result.pulled) sessionTree?.refresh();
+    if (interactive) {
+      const parts = [
+        result.committed ? 'committed local changes' : 'no local changes',
+        result.pulled ? 'pulled remote changes' : '',
+        result.merged.length > 0 ? `merged ${result.merged.length} conflicting file(s)` : '',
+        result.pushed ? 'pushed' : syncSettings().options.remote ? '' : 'no remote configured',
+      ].filter(Boolean);
+      vscode.window.showInformationMessage(`🔄 Context sync: ${parts.join(', ')}`);
+    }
+  } catch (error) {
+    console.error(`[persistent-context] Context sync (${reason}) failed:`, error);
+    if (interactive) {
+      vscode.window.showErrorMessage(`Context sync failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+function scheduleSync() {
+  if (syncTimer) clearInterval(syncTimer);
+  syncTimer = undefined;
+  const { enabled, intervalMinutes, options } = syncSettings();
+  contextSync.setOptions(options);
+  if (enabled && intervalMinutes > 0) {
+    syncTimer = setInterval(() => void runSync('periodic'), intervalMinutes * 60 * 1000);
+  }
+}
+
+/**
+ * Register every contributed command with a handler that explains why the
+ * extension is inactive, instead of leaving them to fail as "command not found".
+ */
+function registerDisabledCommands(context: vscode.ExtensionContext, message: string) {
+  const commands: Array<{ command: string }> = context.extension.packageJSON.contributes?.commands || [];
+  for (const { command } of commands) {
+    context.subscriptions.push(vscode.commands.registerCommand(command, () =>
+      command === 'persistent-context.settings'
+        ? vscode.commands.executeCommand('workbench.action.openSettings', 'persistentContext')
+        : vscode.window.showInformationMessage(message)
+    ));
+  }
+}
+
+/**
+ * While a workspace is opted out, offer a reload once its rules or settings
+ * enable tracking again.
+ */
+function watchForOptIn(context: vscode.ExtensionContext, workspaceRoot: string) {
+  let offered = false;
+  const check = () => {
+    if (offered || !WorkspacePolicy.load(workspaceRoot).rules.enableTracking) return;
+    offered = true;
+    vscode.window
+      .showInformationMessage('Tracking is enabled for this workspace. Reload the window to start Persistent Context.', 'Reload')
+      .then(choice => {
+        if (choice === 'Reload') vscode.commands.executeCommand('workbench.action.reloadWindow');
+      });
+  };
+  const policyWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, POLICY_FILE));
+  policyWatcher.onDidCreate(check);
+  policyWatcher.onDidChange(check);
+  policyWatcher.onDidDelete(check);
+  context.subscriptions.push(policyWatcher, vscode.workspace.onDidChangeConfiguration(e => {
+    if (e.affectsConfiguration('persistentContext')) check();
+  }));
+}
+
+export async function activate(context: vscode.ExtensionContext) {
   const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
   
   if (!workspaceRoot) {
@@ -14,8 +121,100 @@ export function activate(context: vscode.ExtensionContext) {
     return;
   }
 
-  contextManager = new ContextManager(workspaceRoot);
-  statusBar = new StatusBarManager();
+  // Workspaces that opted out (settings or .persistent-context.json) get no context directory at all
+  if (!WorkspacePolicy.load(workspaceRoot).rules.enableTracking) {
+    console.log(`[persistent-context] Tracking disabled for ${workspaceRoot}`);
+    registerDisabledCommands(context, TRACKING_DISABLED_MESSAGE);
+    watchForOptIn(context, workspaceRoot);
+    return;
+  }
+
+  // An encrypted storage directory must be unlocked first; without the key
+  // nothing is loaded, so nothing can overwrite the encrypted files either.
+  const encryptionKeys = new EncryptionKeys(context.secrets);
+  const encryptionInfo = ContextCipher.readInfo(ContextManager.storageRootFromConfig());
+  let cipher: ContextCipher | undefined;
+  if (encryptionInfo) {
+    const lockedMessage = 'Persistent Context is disabled until the context storage is unlocked. Reload the window to try again.';
+    try {
+      cipher = await encryptionKeys.unlock(encryptionInfo);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Persistent Context is disabled: ${error instanceof Error ? error.message : String(error)}`
+      );
+      registerDisabledCommands(context, lockedMessage);
+      return;
+    }
+    if (!cipher) {
+      vscode.window.showWarningMessage(lockedMessage);
+      registerDisabledCommands(context, lockedMessage);
+      return;
+    }
+  }
+
+  // Provider credentials left in settings.json move to secret storage once
+  const credentials = new CredentialStore(context.secrets);
+  try {
+    const moved = await credentials.migrateSettings(async id => {
+      const choice = await vscode.window.showWarningMessage(
+        `${CREDENTIAL_LABELS[id]} in settings differs from the one in secure storage. Which one should be kept? The other is removed.`,
+        { modal: true },
+        'Use Settings Value',
+        'Keep Stored Value'
+      );
+      return choice === 'Use Settings Value' ? 'settings' : choice === 'Keep Stored Value' ? 'stored' : undefined;
+    });
+    if (moved.length > 0) {
+      vscode.window.showInformationMessage(
+        `Moved ${moved.map(id => CREDENTIAL_LABELS[id]).join(' and ')} from settings to secure storage`
+      );
+    }
+  } catch (error) {
+    console.error('[persistent-context] Failed to move credentials to secret storage:', error);
+  }
+
+  contextManager = new ContextManager(workspaceRoot, cipher, credentials);
+  statusBar = new StatusBarManager(() => ({
+    sessionName: contextManager.getCurrentSession()?.name,
+    activeMs: contextManager.getActiveTime(),
+    aiProvider: contextManager.getAIService().getLastError()
+      ? contextManager.getAIService().getFailedProviderNames().join(', ')
+      : contextManager.getAIService().getProviderName(),
+    aiError: contextManager.getAIService().getLastError(),
+    lastSavedAt: contextManager.getLastSavedAt(),
+    loopRunning,
+  }));
+  sessionTree = new ContextTreeProvider(contextManager);
+
+  // Git sync of the storage directory: at startup (to pull), on session end and periodically
+  contextSync = new ContextSync(contextManager.getStorageRoot(), syncSettings().options, contextManager.getCipher());
+  scheduleSync();
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+    if (e.affectsConfiguration('persistentContext')) scheduleSync();
+  }));
+  void runSync('startup');
+  contextManager.setSessionChangeListener(name => {
+    if (name) statusBar.updateSession(name); else statusBar.clearSession();
+    sessionTree.refresh();
+  });
+
+  // Sidebar view; it also refreshes when the underlying files change on disk
+  const sessionTreeView = vscode.window.createTreeView('persistentContext.sessions', {
+    treeDataProvider: sessionTree,
+    canSelectMany: true,
+  });
+  const contextFileWatcher = vscode.workspace.createFileSystemWatcher(
+    new vscode.RelativePattern(contextManager.getContextDir(), '{sessions.json,decisions.md,SHARED_TASK_NOTES.md}')
+  );
+  contextFileWatcher.onDidCreate(() => sessionTree.refresh());
+  contextFileWatcher.onDidChange(() => sessionTree.refresh());
+  contextFileWatcher.onDidDelete(() => sessionTree.refresh());
+  // Privacy rules committed to the repository apply without a reload
+  const policyWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, POLICY_FILE));
+  policyWatcher.onDidCreate(() => contextManager.reloadPolicy());
+  policyWatcher.onDidChange(() => contextManager.reloadPolicy());
+  policyWatcher.onDidDelete(() => contextManager.reloadPolicy());
+  context.subscriptions.push(sessionTreeView, contextFileWatcher, policyWatcher);
 
   // On activation, if there are previous sessions in this workspace, prompt to resume or merge.
   const sessions = contextManager.getSessionNames();
@@ -133,10 +332,19 @@ export function activate(context: vscode.ExtensionContext) {
     console.error('persistent-context: failed to create progress watcher', e);
   }
 
+  // Commands that write context do nothing once the workspace's rules opt it out
+  const whenTracking = <A extends unknown[]>(handler: (...args: A) => unknown) => (...args: A) => {
+    if (!contextManager.isTrackingEnabled()) {
+      vscode.window.showInformationMessage(TRACKING_DISABLED_MESSAGE);
+      return;
+    }
+    return handler(...args);
+  };
+
   // Register commands
   const startSession = vscode.commands.registerCommand(
     'persistent-context.startSession',
-    async () => {
+    whenTracking(async () => {
       const name = await vscode.window.showInputBox({
         prompt: 'Enter session name',
         placeHolder: 'e.g., Building payment API',
@@ -145,9 +353,10 @@ export function activate(context: vscode.ExtensionContext) {
       if (name) {
         contextManager.startSession(name);
         statusBar.updateSession(name);
+        sessionTree.refresh();
         vscode.window.showInformationMessage(`✓ Session started: ${name}`);
       }
-    }
+    })
   );
 
   const endSession = vscode.commands.registerCommand(
@@ -158,12 +367,208 @@ export function activate(context: vscode.ExtensionContext) {
         placeHolder: 'e.g., Completed endpoints, next: webhooks',
       });
       
-      contextManager.endSession(notes);
+      const retrospective = contextManager.endSession(notes);
       statusBar.clearSession();
+      sessionTree.refresh();
       vscode.window.showInformationMessage('✓ Session ended');
+      const written = await retrospective;
+      if (written) {
+        vscode.window.showInformationMessage(
+          `✓ Session retrospective written to progress.md${written.source === 'fallback' ? ' (no AI provider available)' : ''}`
+        );
+      }
+      void runSync('session end');
+    }
+  );
+
+  const pauseSession = vscode.commands.registerCommand(
+    'persistent-context.pauseSession',
+    () => {
+      const paused = contextManager.pauseSession();
+      if (!paused) {
+        vscode.window.showInformationMessage('No active session to pause');
+        return;
+      }
+      statusBar.clearSession();
+      sessionTree.refresh();
+      vscode.window.showInformationMessage(`⏸ Session paused: ${paused}`);
+    }
+  );
+
+  const resumeSession = vscode.commands.registerCommand(
+    'persistent-context.resumeSession',
+    whenTracking(async (node?: ContextTreeNode) => {
+      if (node?.type === 'session') {
+        const resumed = contextManager.resumeSession(node.session.id);
+        if (resumed) statusBar.updateSession(resumed);
+        sessionTree.refresh();
+        return;
+      }
+      const sessions = contextManager.getSessions().filter(s => !s.endTime);
+      if (sessions.length === 0) {
+        vscode.window.showInformationMessage('No paused sessions to resume');
+        return;
+      }
+      const choice = await vscode.window.showQuickPick(
+        sessions.map(s => ({
+          label: s.name,
+          description: s.pausedAt ? `Paused ${s.pausedAt.toLocaleString()}` : 'In progress',
+          id: s.id,
+        })),
+        { placeHolder: 'Select a session to resume' }
+      );
+      if (!choice) return;
+      const name = contextManager.resumeSession(choice.id);
+      if (name) {
+        statusBar.updateSession(name);
+        vscode.window.showInformationMessage(`Resumed session: ${name}`);
+      }
+      sessionTree.refresh();
+    })
+  );
+
+  const mergeSessions = vscode.commands.registerCommand(
+    'persistent-context.mergeSessions',
+    whenTracking(async (node?: ContextTreeNode, selected?: ContextTreeNode[]) => {
+      const selectedIds = (selected || []).flatMap(n => (n.type === 'session' ? [n.session.id] : []));
+      let ids = selectedIds;
+      if (ids.length < 2) {
+        const initial = node?.type === 'session' ? node.session.id : undefined;
+        const picked = await vscode.window.showQuickPick(
+          contextManager.getSessions().map(s => ({
+            label: s.name,
+            description: s.startTime.toLocaleString(),
+            picked: s.id === initial,
+            id: s.id,
+          })),
+          { placeHolder: 'Select the sessions to merge', canPickMany: true }
+        );
+        if (!picked) return;
+        ids = picked.map(p => p.id);
+      }
+      if (ids.length < 2) {
+        vscode.window.showInformationMessage('Select at least two sessions to merge');
+        return;
+      }
+      const mergedName = contextManager.mergeSessions(ids);
+      if (mergedName) {
+        statusBar.updateSession(mergedName);
+        vscode.window.showInformationMessage(`Merged and resumed session: ${mergedName}`);
+      }
+      sessionTree.refresh();
+    })
+  );
+
+  const deleteSession = vscode.commands.registerCommand(
+    'persistent-context.deleteSession',
+    whenTracking(async (node?: ContextTreeNode) => {
+      let session = node?.type === 'session' ? node.session : undefined;
+      if (!session) {
+        const choice = await vscode.window.showQuickPick(
+          contextManager.getSessions().map(s => ({ label: s.name, description: s.startTime.toLocaleString(), session: s })),
+          { placeHolder: 'Select a session to delete' }
+        );
+        session = choice?.session;
+      }
+      if (!session) return;
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete session "${session.name}"? The session index is backed up first.`,
+        { modal: true },
+        'Delete'
+      );
+      if (confirm !== 'Delete') return;
+      const wasCurrent = contextManager.getCurrentSession()?.id === session.id;
+      const deleted = contextManager.deleteSession(session.id);
+      if (wasCurrent) statusBar.clearSession();
+      if (deleted) vscode.window.showInformationMessage(`✓ Session deleted: ${deleted}`);
+      sessionTree.refresh();
+    })
+  );
+
+  const quickActions = vscode.commands.registerCommand(
+    QUICK_ACTIONS_COMMAND,
+    async () => {
+      const active = contextManager.isSessionActive();
+      const aiError = contextManager.getAIService().getLastError();
+      const actions = [
+        ...(active
+          ? [
+              { label: '$(debug-stop) End Session', command: 'persistent-context.endSession' },
+              { label: '$(debug-pause) Pause Session', command: 'persistent-context.pauseSession' },
+              { label: '$(note) Add Note', command: 'persistent-context.addNote' },
+            ]
+          : [
+              { label: '$(add) Start Session', command: 'persistent-context.startSession' },
+              { label: '$(debug-start) Resume Session', command: 'persistent-context.resumeSession' },
+            ]),
+        { label: '$(copy) Copy Context', command: 'persistent-context.copyContext' },
+        { label: '$(mortar-board) Teach AI Agent', command: 'persistent-context.teachAgent' },
+        ...(aiError ? [{ label: '$(warning) Show AI Error', command: '' }] : []),
+      ];
+      const choice = await vscode.window.showQuickPick(actions, { placeHolder: contextManager.getCurrentSessionName() });
+      if (!choice) return;
+      if (!choice.command) {
+        vscode.window.showErrorMessage(`${contextManager.getAIService().getFailedProviderNames().join(', ')}: ${aiError}`);
+        return;
+      }
+      await vscode.commands.executeCommand(choice.command);
     }
   );
 
+  const refreshSessionsView = vscode.commands.registerCommand(
+    'persistent-context.refreshSessionsView',
+    () => sessionTree.refresh()
+  );
+
+  const tagSession = vscode.commands.registerCommand(
+    'persistent-context.tagSession',
+    whenTracking(async () => {
+      const current = contextManager.getCurrentSession();
+      if (!current) {
+        vscode.window.showInformationMessage('No active session to tag');
+        return;
+      }
+      const input = await vscode.window.showInputBox({
+        prompt: 'Session tags (comma-separated)',
+        placeHolder: 'e.g., payments, refactor',
+        value: (current.tags || []).join(', '),
+      });
+      if (input === undefined) return;
+      contextManager.setSessionTags(input.split(','));
+      sessionTree.refresh();
+      vscode.window.showInformationMessage(`✓ Tags updated for ${current.name}`);
+    })
+  );
+
+  const unmergeSession = vscode.commands.registerCommand(
+    'persistent-context.unmergeSession',
+    whenTracking(async () => {
+      const merged = contextManager.getMergedSessions();
+      if (merged.length === 0) {
+        vscode.window.showInformationMessage('No merged sessions to unmerge');
+        return;
+      }
+      const choice = await vscode.window.showQuickPick(
+        merged.map(s => ({ label: s.name, description: `${s.mergedFrom!.length} sessions`, id: s.id })),
+        { placeHolder: 'Select a merged session to split back into its sources' }
+      );
+      if (!choice) return;
+      const wasCurrent = contextManager.getCurrentSession()?.id === choice.id;
+      const restored = contextManager.unmergeSession(choice.id);
+      if (wasCurrent) statusBar.clearSession();
+      sessionTree.refresh();
+      vscode.window.showInformationMessage(`✓ Restored sessions: ${restored.join(', ')}`);
+    })
+  );
+
+  // Editor activity feeds the session's active-time accounting
+  const activityListeners = [
+    vscode.workspace.onDidChangeTextDocument(() => contextManager.recordActivity()),
+    vscode.workspace.onDidSaveTextDocument(() => contextManager.recordActivity()),
+    vscode.window.onDidChangeActiveTextEditor(() => contextManager.recordActivity()),
+    vscode.window.onDidChangeTextEditorSelection(() => contextManager.recordActivity()),
+  ];
+
   const copyContext = vscode.commands.registerCommand(
     'persistent-context.copyContext',
     () => {
@@ -185,6 +590,136 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  const searchContext = vscode.commands.registerCommand(
+    'persistent-context.searchContext',
+    () => contextManager.searchContext()
+  );
+
+  const workspaceDashboard = vscode.commands.registerCommand(
+    'persistent-context.workspaceDashboard',
+    () => new WorkspaceDashboard(
+      new WorkspaceRegistry(contextManager.getStorageRoot(), contextManager.getCipher(), vscode.env.machineId),
+      contextManager.getContextDir(),
+      (filePath) => contextManager.openContextFile(filePath)
+    ).show()
+  );
+
+  // Used by the sidebar and the timeline so encrypted files open decrypted
+  const openContextFile = vscode.commands.registerCommand(
+    OPEN_CONTEXT_FILE_COMMAND,
+    (filePath: string, line?: number) => contextManager.openContextFile(filePath, line)
+  );
+
+  const pickCredential = async (placeHolder: string) => {
+    const items = await Promise.all((Object.keys(CREDENTIAL_LABELS) as CredentialId[]).map(async id => ({
+      label: CREDENTIAL_LABELS[id],
+      description: (await credentials.isStored(id)) ? 'stored' : 'not set',
+      id,
+    })));
+    return vscode.window.showQuickPick(items, { placeHolder });
+  };
+
+  const setCredential = vscode.commands.registerCommand(
+    'persistent-context.setCredential',
+    async () => {
+      const choice = await pickCredential('Credential to store in secret storage');
+      if (!choice) return;
+      const value = await vscode.window.showInputBox({
+        prompt: `Enter the ${choice.label}`,
+        password: true,
+        ignoreFocusOut: true,
+      });
+      if (!value || !value.trim()) return;
+      await credentials.set(choice.id, value.trim());
+      vscode.window.showInformationMessage(`🔑 ${choice.label} saved to secret storage`);
+    }
+  );
+
+  const clearCredential = vscode.commands.registerCommand(
+    'persistent-context.clearCredential',
+    async () => {
+      const choice = await pickCredential('Credential to remove from secret storage');
+      if (!choice) return;
+      await credentials.clear(choice.id);
+      vscode.window.showInformationMessage(`${choice.label} removed from secret storage`);
+    }
+  );
+
+  const syncNow = vscode.commands.registerCommand(
+    'persistent-context.syncNow',
+    () => runSync('manual', true)
+  );
+
+  const migrateEncryption = vscode.commands.registerCommand(
+    'persistent-context.migrateEncryption',
+    async () => {
+      const storageRoot = contextManager.getStorageRoot();
+      const encrypted = !!contextManager.getCipher();
+      const choice = await vscode.window.showQuickPick(
+        encrypted
+          ? [{ label: 'Decrypt', description: 'Rewrite the context storage as plain files' }]
+          : [{ label: 'Encrypt', description: 'Encrypt every workspace in the context storage' }],
+        { placeHolder: `Context storage at ${storageRoot} is ${encrypted ? 'encrypted' : 'not encrypted'}` }
+      );
+      if (!choice) return;
+      // Encryption covers the whole storage directory, not just this workspace
+      const workspaces = new WorkspaceRegistry(storageRoot, contextManager.getCipher(), vscode.env.machineId).list();
+      const names = workspaces.slice(0, 5).map((w) => w.name).join(', ') + (workspaces.length > 5 ? ', …' : '');
+      const scope = `all ${workspaces.length} workspace(s) in the context storage (${names})`;
+
+      try {
+        if (choice.label === 'Decrypt') {
+          const confirm = await vscode.window.showWarningMessage(
+            `Decrypt the context of ${scope}? It will be stored as plain text.`,
+            { modal: true },
+            'Decrypt'
+          );
+          if (confirm !== 'Decrypt') return;
+          const count = contextManager.getCipher()!.transformDirectory(storageRoot, 'decrypt');
+          ContextCipher.writeInfo(storageRoot, undefined);
+          contextManager.setCipher(undefined);
+          contextSync.setCipher(undefined);
+          await encryptionKeys.clear();
+          vscode.window.showInformationMessage(`🔓 Decrypted ${count} context file(s)`);
+          return;
+        }
+
+        const keySource = vscode.workspace
+          .getConfiguration('persistentContext')
+          .get<EncryptionKeySource>('encryptionKeySource', 'secretStorage');
+        const confirm = await vscode.window.showWarningMessage(
+          keySource === 'passphrase'
+            ? `Encrypt the context of ${scope} with a passphrase? Without it the context cannot be read.`
+            : `Encrypt the context of ${scope} with a key kept in VS Code's secret storage? Other machines will not be able to read it.`,
+          { modal: true },
+          'Encrypt'
+        );
+        if (confirm !== 'Encrypt') return;
+        const created = await encryptionKeys.create(keySource);
+        if (!created) return;
+        // Info first: if encrypting stops halfway, the next start still asks for the key
+        ContextCipher.writeInfo(storageRoot, created.info);
+        contextManager.setCipher(created.cipher);
+        contextSync.setCipher(created.cipher);
+        const count = created.cipher.transformDirectory(storageRoot, 'encrypt');
+        vscode.window.showInformationMessage(`🔒 Encrypted ${count} context file(s)`);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to migrate context storage: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+
+  const showTimeline = vscode.commands.registerCommand(
+    'persistent-context.showTimeline',
+    () => TimelinePanel.show(
+      new ContextTimeline(contextManager.getFileService(), contextManager.getGitService(), contextManager.getActiveContextFile()),
+      contextManager.getContextDir(),
+      contextManager.getGitService()
+    )
+  );
+
   const viewHistory = vscode.commands.registerCommand(
     'persistent-context.viewHistory',
     () => {
@@ -194,9 +729,85 @@ export function activate(context: vscode.ExtensionContext) {
 
   const viewDecisions = vscode.commands.registerCommand(
     'persistent-context.viewDecisions',
-    () => {
+    whenTracking(() => {
       contextManager.viewDecisions();
-    }
+    })
+  );
+
+  const addDecision = vscode.commands.registerCommand(
+    'persistent-context.addDecision',
+    whenTracking(async () => {
+      const title = await vscode.window.showInputBox({
+        prompt: 'Decision title',
+        placeHolder: 'e.g., Use PostgreSQL for persistence',
+      });
+      if (!title) return;
+
+      const context = await vscode.window.showInputBox({
+        prompt: 'Context: what forces or problem led to this decision? (optional)',
+      });
+      if (context === undefined) return;
+
+      const decisionText = await vscode.window.showInputBox({
+        prompt: 'Decision: what did we decide?',
+      });
+      if (decisionText === undefined) return;
+
+      const consequences = await vscode.window.showInputBox({
+        prompt: 'Consequences: what becomes easier or harder? (optional)',
+      });
+      if (consequences === undefined) return;
+
+      const status = await vscode.window.showQuickPick(['accepted', 'proposed'], {
+        placeHolder: 'Decision status',
+      });
+      if (!status) return;
+
+      let supersedes: number[] = [];
+      const active = contextManager.decisionLog.active();
+      if (active.length > 0) {
+        const picked = await vscode.window.showQuickPick(
+          active.map(d => ({ label: `${DecisionLog.formatId(d.id)}: ${d.title}`, id: d.id })),
+          { placeHolder: 'Does this supersede earlier decisions? (select none to skip)', canPickMany: true }
+        );
+        supersedes = (picked || []).map(p => p.id);
+      }
+
+      const decision = contextManager.addDecision({
+        title,
+        context,
+        decision: decisionText,
+        consequences,
+        status: status as 'accepted' | 'proposed',
+        supersedes,
+      });
+      if (!decision) return;
+      sessionTree.refresh();
+      vscode.window.showInformationMessage(`✓ Recorded ${DecisionLog.formatId(decision.id)}: ${decision.title}`);
+    })
+  );
+
+  const compactContext = vscode.commands.registerCommand(
+    'persistent-context.compactContext',
+    whenTracking(async () => {
+      try {
+        const result = await contextManager.compactActiveContext();
+        vscode.window.showInformationMessage(
+          `✓ Context compacted: ${result.foldedUpdates} update(s) folded, ${result.archivedDigests} digest(s) archived`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Compaction failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    })
+  );
+
+  const editPromptTemplate = vscode.commands.registerCommand(
+    'persistent-context.editPromptTemplate',
+    whenTracking(() => {
+      contextManager.editPromptTemplate();
+    })
   );
 
   const settingsCmd = vscode.commands.registerCommand(
@@ -208,36 +819,54 @@ export function activate(context: vscode.ExtensionContext) {
 
   const addNote = vscode.commands.registerCommand(
     'persistent-context.addNote',
-    async () => {
+    whenTracking(async (node?: ContextTreeNode) => {
+      const target = node?.type === 'session' || node?.type === 'note' ? node.session : undefined;
       const note = await vscode.window.showInputBox({
-        prompt: 'Enter note',
+        prompt: target ? `Enter note for ${target.name}` : 'Enter note',
         placeHolder: 'e.g., Blocked on API key',
       });
       
       if (note) {
-        contextManager.addNote(note);
+        contextManager.addNote(note, target?.id);
+        sessionTree.refresh();
       }
-    }
+    })
   );
 
   const teachAgent = vscode.commands.registerCommand(
     'persistent-context.teachAgent',
     async () => {
-      const briefing = contextManager.generateAgentBriefing();
+      const defaultBudget = vscode.workspace
+        .getConfiguration('persistentContext')
+        .get<number>('briefingTokenBudget', 8000);
+      const budgetStr = await vscode.window.showInputBox({
+        prompt: 'Token budget for the briefing (0 for unlimited)',
+        value: String(defaultBudget),
+      });
+      if (budgetStr === undefined) return;
+
+      const budget = parseInt(budgetStr || String(defaultBudget), 10);
+      if (isNaN(budget) || budget < 0) {
+        vscode.window.showErrorMessage('Invalid token budget');
+        return;
+      }
+
+      const briefing = contextManager.generateAgentBriefing(budget);
       
       // Copy to clipboard
-      await vscode.env.clipboard.writeText(briefing);
+      await vscode.env.clipboard.writeText(briefing.text);
       
       // Show in new document
       const doc = await vscode.workspace.openTextDocument({
-        content: briefing,
+        content: briefing.text,
         language: 'markdown',
       });
       
       await vscode.window.showTextDocument(doc);
       
+      const left = briefing.truncated.length + briefing.omitted.length;
       vscode.window.showInformationMessage(
-        '✓ Project context copied to clipboard and opened. Paste into your AI chat to bring them up to speed!'
+        `✓ Project context (~${briefing.tokens} tokens${left > 0 ? `, ${left} item(s) trimmed to fit` : ''}) copied to clipboard and opened. Paste into your AI chat to bring them up to speed!`
       );
     }
   );
@@ -282,6 +911,8 @@ export function activate(context: vscode.ExtensionContext) {
         );
 
         vscode.window.showInformationMessage('🔄 Continuous loop starting... Check the output panel');
+        loopRunning = true;
+        statusBar.refresh();
 
         await loop.run(prompt, {
           maxIterations: maxRuns,
@@ -292,6 +923,10 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.window.showErrorMessage(
           `Continuous loop error: ${error instanceof Error ? error.message : String(error)}`
         );
+      } finally {
+        loopRunning = false;
+        statusBar.refresh();
+        sessionTree.refresh();
       }
     }
   );
@@ -299,12 +934,32 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     startSession,
     endSession,
+    pauseSession,
+    resumeSession,
+    mergeSessions,
+    deleteSession,
+    quickActions,
+    refreshSessionsView,
+    tagSession,
+    unmergeSession,
+    ...activityListeners,
     copyContext,
     viewContext,
     addNote,
     viewSession,
+    searchContext,
+    workspaceDashboard,
+    openContextFile,
+    setCredential,
+    clearCredential,
+    migrateEncryption,
+    syncNow,
+    showTimeline,
     viewHistory,
     viewDecisions,
+    addDecision,
+    editPromptTemplate,
+    compactContext,
     settingsCmd,
     teachAgent,
     startContinuousLoop
@@ -312,6 +967,7 @@ export function activate(context: vscode.ExtensionContext) {
 }
 
 export function deactivate() {
+  if (syncTimer) clearInterval(syncTimer);
   statusBar?.dispose();
   contextManager?.dispose();
 }
@@ -0,0 +1,90 @@
+import { Session } from '../utils/types';
+
+/**
+ * ActivityTracker credits active time to a session. Each activity signal
+ * (an editor event or a git change) credits the time elapsed since the
+ * previous one, unless the gap exceeds the idle threshold, in which case the
+ * gap is treated as idle and not counted.
+ */
+export class ActivityTracker {
+  private lastActivity?: Date;
+
+  constructor(private idleThresholdMs: number = 5 * 60 * 1000) {}
+
+  setIdleThreshold(ms: number) {
+    this.idleThresholdMs = ms;
+  }
+
+  /**
+   * Begin tracking from `at` (session started or resumed).
+   */
+  start(at: Date = new Date()) {
+    this.lastActivity = at;
+  }
+
+  /**
+   * Credit the final stretch and stop tracking (session paused or ended).
+   */
+  stop(session: Session, at: Date = new Date()) {
+    this.record(session, at);
+    this.lastActivity = undefined;
+  }
+
+  isTracking(): boolean {
+    return !!this.lastActivity;
+  }
+
+  isIdle(at: Date = new Date()): boolean {
+    return !this.lastActivity || at.getTime() - this.lastActivity.getTime() > this.idleThresholdMs;
+  }
+
+  /**
+   * Time since the last signal that the next signal would credit; 0 once idle.
+   */
+  pendingMs(at: Date = new Date()): number {
+    if (!this.lastActivity || this.isIdle(at)) return 0;
+    return Math.max(0, at.getTime() - this.lastActivity.getTime());
+  }
+
+  /**
+   * Record an activity signal at `at`. Returns the milliseconds credited.
+   */
+  record(session: Session, at: Date = new Date()): number {
+    const previous = this.lastActivity;
+    if (!previous) return 0;
+    this.lastActivity = at;
+    const gap = at.getTime() - previous.getTime();
+    if (gap <= 0 || gap > this.idleThresholdMs) return 0;
+    ActivityTracker.credit(session, previous, at);
+    return gap;
+  }
+
+  /**
+   * Add the interval to the session's total and per-day breakdown, splitting at local midnight.
+   */
+  static credit(session: Session, from: Date, to: Date) {
+    const byDay = session.activeByDay || {};
+    let cursor = from.getTime();
+    while (cursor < to.getTime()) {
+      const day = new Date(cursor);
+      const nextMidnight = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+      const end = Math.min(nextMidnight, to.getTime());
+      const key = ActivityTracker.dayKey(day);
+      byDay[key] = (byDay[key] || 0) + (end - cursor);
+      cursor = end;
+    }
+    session.activeByDay = byDay;
+    session.activeMs = (session.activeMs || 0) + (to.getTime() - from.getTime());
+  }
+
+  static dayKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  static formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${String(minutes % 60).padStart(2, '0')}m` : `${minutes}m`;
+  }
+}
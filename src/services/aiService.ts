@@ -2,89 +2,237 @@ import * as vscode from 'vscode';
 import * as https from 'https';
 import * as http from 'http';
 import { ContextSnapshot } from './snapshotCollector';
+import { PromptBuilder } from './promptBuilder';
+import { FileService } from './fileService';
+import { CredentialStore } from './credentialStore';
+import { WorkspacePolicy } from './workspacePolicy';
 
 export interface AIProvider {
   name: string;
-  summarize(snapshot: ContextSnapshot): Promise<string>;
+  complete(prompt: string): Promise<string>;
 }
 
 /**
- * AIService attempts to use available LLM providers to summarize context.
- * Tries in order: GitHub Copilot (via VS Code API), Ollama, OpenAI
- * Falls back gracefully if none available.
+ * Runtime health of a single provider in the fallback chain.
+ */
+export interface ProviderHealth {
+  id: string;
+  name: string;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailure?: Date;
+  lastSuccess?: Date;
+  cooldownUntil?: Date;
+}
+
+/**
+ * Workspace restrictions on AI use, from the workspace privacy rules.
+ */
+export interface AIPolicy {
+  enabled: boolean;
+  // false: providers that send the prompt off this machine are left out of the chain
+  allowRemote: boolean;
+}
+
+const DEFAULT_PROVIDER_CHAIN = ['copilot', 'ollama'];
+// Upper bound for providers without their own request timeout (e.g. Copilot)
+const PROVIDER_TIMEOUT_MS = 120000;
+
+/**
+ * AIService summarizes context through an ordered chain of LLM providers.
+ * When aiProvider is 'auto' the chain comes from aiProviderChain (default:
+ * GitHub Copilot via VS Code API, then Ollama); otherwise it holds only the
+ * selected provider. A provider that fails or times out is put on cool-down
+ * and the next one is tried. Falls back gracefully if none are available.
  */
 export class AIService {
-  private provider: AIProvider | null = null;
+  private chain: Array<{ id: string; provider: AIProvider }> = [];
+  private health = new Map<string, ProviderHealth>();
+  private cooldownMs = 300000;
+  private lastProvider: AIProvider | null = null;
   private lastError: string | null = null;
+  // Providers that failed or were cooling down on the last call that got no response
+  private failedProviders: string[] = [];
+  private policy: AIPolicy = { enabled: true, allowRemote: true };
+  readonly promptBuilder: PromptBuilder;
+
+  constructor(
+    private workspaceRoot: string,
+    fileService?: FileService,
+    private credentials: CredentialStore = new CredentialStore()
+  ) {
+    this.promptBuilder = new PromptBuilder(fileService);
+    this.initializeProvider();
+  }
 
-  constructor(private workspaceRoot: string) {
+  /**
+   * Rebuild the provider chain from the current configuration.
+   * Health records of providers that remain in the chain are kept.
+   */
+  reload() {
+    this.initializeProvider();
+  }
+
+  setPolicy(policy: AIPolicy) {
+    this.policy = policy;
     this.initializeProvider();
   }
 
   private initializeProvider() {
     const cfg = vscode.workspace.getConfiguration('persistentContext');
     const providerSetting = cfg.get<string>('aiProvider', 'auto');
+    this.cooldownMs = Math.max(0, cfg.get<number>('aiProviderCooldown', 300)) * 1000;
+
+    const ids = !this.policy.enabled
+      ? []
+      : providerSetting === 'auto'
+        ? cfg.get<string[]>('aiProviderChain', DEFAULT_PROVIDER_CHAIN) || DEFAULT_PROVIDER_CHAIN
+        : [providerSetting];
+
+    this.chain = [];
+    for (const rawId of ids) {
+      const id = rawId.toLowerCase();
+      if (this.chain.some((entry) => entry.id === id)) continue;
+      if (!this.policy.allowRemote && !this.isLocalProvider(id, cfg)) {
+        console.warn(`[persistent-context] Skipping remote AI provider ${id}: not allowed in this workspace`);
+        continue;
+      }
+      const provider = this.createProvider(id);
+      if (provider) {
+        this.chain.push({ id, provider });
+      }
+    }
 
-    if (providerSetting === 'auto') {
-      this.tryInitializeAuto();
-    } else {
-      this.tryInitializeSpecific(providerSetting);
+    for (const id of Array.from(this.health.keys())) {
+      if (!this.chain.some((entry) => entry.id === id)) this.health.delete(id);
     }
+    for (const { id, provider } of this.chain) {
+      const existing = this.health.get(id);
+      this.health.set(id, { ...(existing || { consecutiveFailures: 0 }), id, name: provider.name });
+    }
+
+    this.lastProvider = this.chain[0]?.provider || null;
   }
 
-  private tryInitializeAuto() {
-    // Try GitHub Copilot first (via vscode.lm API if available)
-    if ((vscode as any).lm) {
-      this.provider = new GitHubCopilotProvider();
-      return;
+  private isLocalProvider(id: string, cfg: vscode.WorkspaceConfiguration): boolean {
+    switch (id) {
+      case 'ollama':
+        return WorkspacePolicy.isLocalEndpoint(cfg.get<string>('ollamaEndpoint', 'http://localhost:11434'));
+      case 'openai':
+        return WorkspacePolicy.isLocalEndpoint(cfg.get<string>('openaiBaseUrl', DEFAULT_OPENAI_BASE_URL) || DEFAULT_OPENAI_BASE_URL);
+      default:
+        return false;
     }
-
-    // Try Ollama
-    this.provider = new OllamaProvider();
   }
 
-  private tryInitializeSpecific(providerName: string) {
+  private createProvider(providerName: string): AIProvider | null {
     const cfg = vscode.workspace.getConfiguration('persistentContext');
 
-    switch (providerName.toLowerCase()) {
+    switch (providerName) {
       case 'github-models':
-        this.provider = new GitHubModelsProvider();
-        break;
+        return new GitHubModelsProvider(() => this.credentials.get('githubToken'));
       case 'copilot':
-        if ((vscode as any).lm) {
-          this.provider = new GitHubCopilotProvider();
-        }
-        break;
+        return (vscode as any).lm ? new GitHubCopilotProvider() : null;
       case 'ollama':
-        this.provider = new OllamaProvider(cfg.get<string>('ollamaEndpoint', 'http://localhost:11434'));
-        break;
+        return new OllamaProvider(cfg.get<string>('ollamaEndpoint', 'http://localhost:11434'));
       case 'openai':
-        const openaiKey = cfg.get<string>('openaiApiKey');
-        if (openaiKey) {
-          this.provider = new OpenAIProvider(openaiKey);
-        }
-        break;
+        return new OpenAIProvider({
+          getApiKey: () => this.credentials.get('openaiApiKey'),
+          baseUrl: cfg.get<string>('openaiBaseUrl', DEFAULT_OPENAI_BASE_URL) || DEFAULT_OPENAI_BASE_URL,
+          model: cfg.get<string>('openaiModel', 'gpt-4o-mini') || 'gpt-4o-mini',
+          timeoutMs: Math.max(1, cfg.get<number>('openaiTimeout', 30)) * 1000,
+        });
+      default:
+        console.warn(`[persistent-context] Unknown AI provider in chain: ${providerName}`);
+        return null;
     }
   }
 
   async summarize(snapshot: ContextSnapshot): Promise<string | null> {
-    if (!this.provider) {
+    return this.complete(this.promptBuilder.build(snapshot));
+  }
+
+  /**
+   * Ask the provider chain to revise a previous summary given the changes since it was written.
+   */
+  async updateSummary(snapshot: ContextSnapshot, previousSummary: string, changes: string[]): Promise<string | null> {
+    return this.complete(this.promptBuilder.buildUpdate(snapshot, previousSummary, changes));
+  }
+
+  /**
+   * Send an already-built prompt through the provider chain.
+   * Returns null when no provider produced a response.
+   */
+  async complete(prompt: string): Promise<string | null> {
+    if (this.chain.length === 0) {
+      this.lastProvider = null;
       return null; // No AI available, return null to indicate graceful degradation
     }
 
-    try {
-      const summary = await this.provider.summarize(snapshot);
-      this.lastError = null;
-      return summary;
-    } catch (error) {
-      this.lastError = `AI provider error: ${error}`;
-      console.error('[persistent-context] AI error:', this.lastError);
-      return null;
+    const errors: string[] = [];
+    const failed: string[] = [];
+    const now = Date.now();
+
+    for (const { id, provider } of this.chain) {
+      const health = this.health.get(id)!;
+      if (health.cooldownUntil && health.cooldownUntil.getTime() > now) {
+        errors.push(`${provider.name}: cooling down until ${health.cooldownUntil.toLocaleTimeString()}`);
+        failed.push(provider.name);
+        continue;
+      }
+
+      try {
+        const summary = await this.withTimeout(provider.complete(prompt), provider.name);
+        health.consecutiveFailures = 0;
+        health.lastSuccess = new Date();
+        health.cooldownUntil = undefined;
+        this.lastProvider = provider;
+        this.lastError = null;
+        this.failedProviders = [];
+        return summary;
+      } catch (error) {
+        health.consecutiveFailures++;
+        health.lastError = String(error);
+        health.lastFailure = new Date();
+        health.cooldownUntil = new Date(Date.now() + this.cooldownMs);
+        errors.push(`${provider.name}: ${error}`);
+        failed.push(provider.name);
+        console.warn(`[persistent-context] AI provider ${provider.name} failed:`, String(error));
+      }
     }
+
+    this.lastProvider = null;
+    this.failedProviders = failed;
+    this.lastError = `AI provider error: ${errors.join('; ')}`;
+    console.error('[persistent-context] AI error:', this.lastError);
+    return null;
   }
 
+  private withTimeout<T>(promise: Promise<T>, providerName: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${providerName} request timeout`)), PROVIDER_TIMEOUT_MS);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer as NodeJS.Timeout));
+  }
+
+  /**
+   * Name of the provider that produced the most recent summary,
+   * or of the first provider in the chain before any summary was requested.
+   */
   getProviderName(): string {
-    return this.provider?.name || 'none';
+    return this.lastProvider?.name || 'none';
+  }
+
+  /**
+   * Names of the providers behind the last error, in fallback order.
+   */
+  getFailedProviderNames(): string[] {
+    return this.lastError ? [...this.failedProviders] : [];
+  }
+
+  getProviderHealth(): ProviderHealth[] {
+    return this.chain.map(({ id }) => ({ ...this.health.get(id)! }));
   }
 
   hasError(): boolean {
@@ -102,14 +250,12 @@ export class AIService {
 class GitHubCopilotProvider implements AIProvider {
   name = 'GitHub Copilot';
 
-  async summarize(snapshot: ContextSnapshot): Promise<string> {
+  async complete(prompt: string): Promise<string> {
     const vscodeLM = (vscode as any).lm;
     if (!vscodeLM) {
       throw new Error('VS Code Language Models API not available. Ensure you have GitHub Copilot extension installed and are signed in.');
     }
 
-    const prompt = this.buildPrompt(snapshot);
-
     try {
       // Use gpt-4o or gpt-3.5-turbo depending on availability
       const models = await vscodeLM.selectChatModels();
@@ -132,55 +278,6 @@ class GitHubCopilotProvider implements AIProvider {
       throw new Error(`GitHub Copilot summarization failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
-
-  private buildPrompt(snapshot: ContextSnapshot): string {
-    const escapeField = (val: any): string => {
-      if (!val) return '';
-      return String(val).replace(/`/g, '\\`').replace(/\$/g, '\\$');
-    };
-
-    return `You are a technical AI assistant. Analyze this workspace snapshot and provide a concise summary that will help you or another AI quickly understand the project context.
-
-## Workspace Metadata
-- Name: ${escapeField(snapshot.workspaceMetadata.name)}
-- Language: ${escapeField(snapshot.workspaceMetadata.mainLanguage)}
-- Node Version: ${escapeField(snapshot.workspaceMetadata.nodeVersion) || 'N/A'}
-
-## Project Structure
-Directories: ${snapshot.projectStructure.directories.map(escapeField).join(', ')}
-Key Files: ${snapshot.projectStructure.keyFiles.map(escapeField).join(', ')}
-
-## Git Status
-- Branch: ${escapeField(snapshot.git.branch)}
-- Recent Commits: ${snapshot.git.recentCommits.map((c) => escapeField(c.message)).join('\n  - ')}
-- Modified Files: ${snapshot.git.modifiedFiles.map(escapeField).join(', ') || 'None'}
-- Staged Files: ${snapshot.git.stagedFiles.map(escapeField).join(', ') || 'None'}
-
-## Open Editors
-${snapshot.openEditors.map((e) => `- ${escapeField(e.path)} (${escapeField(e.language)}, ${e.lines} lines)`).join('\n')}
-
-## Deployment Context (if mentioned)
-${snapshot.deploymentContext.location ? `- Location: ${escapeField(snapshot.deploymentContext.location)}` : ''}
-${snapshot.deploymentContext.accessMethod ? `- Access: ${escapeField(snapshot.deploymentContext.accessMethod)}` : ''}
-${snapshot.deploymentContext.deploymentMethod ? `- Method: ${escapeField(snapshot.deploymentContext.deploymentMethod)}` : ''}
-${snapshot.deploymentContext.currentWorkMode ? `- Work Mode: ${escapeField(snapshot.deploymentContext.currentWorkMode)}` : ''}
-${snapshot.deploymentContext.isProduction !== undefined ? `- Environment: ${snapshot.deploymentContext.isProduction ? 'Production' : 'Development'}` : ''}
-
-## Required Extensions
-${snapshot.vscodeContext.requiredExtensions.map(escapeField).join(', ') || 'None'}
-
-## Task
-Provide a comprehensive summary covering:
-1. What is this project building?
-2. What is the tech stack?
-3. What is the project structure and architecture?
-4. What is currently being worked on?
-5. What changed recently?
-6. What is the deployment environment (if any)?
-7. Any important context for continuing development?
-
-Keep the summary concise but complete.`;
-  }
 }
 
 /**
@@ -190,18 +287,17 @@ class GitHubModelsProvider implements AIProvider {
   name = 'GitHub Models';
   private endpoint = 'https://models.inference.ai.azure.com/chat/completions';
 
-  async summarize(snapshot: ContextSnapshot): Promise<string> {
-    const cfg = vscode.workspace.getConfiguration('persistentContext');
-    const token = cfg.get<string>('githubToken') || process.env.GITHUB_TOKEN;
+  constructor(private getToken: () => Promise<string | undefined>) {}
+
+  async complete(prompt: string): Promise<string> {
+    const token = (await this.getToken()) || process.env.GITHUB_TOKEN;
 
     if (!token) {
       throw new Error(
-        'GitHub token not configured. Set persistentContext.githubToken in settings or GITHUB_TOKEN environment variable.'
+        'GitHub token not configured. Run "Set AI Provider Credential" or set the GITHUB_TOKEN environment variable.'
       );
     }
 
-    const prompt = this.buildPrompt(snapshot);
-
     return new Promise((resolve, reject) => {
       const postData = JSON.stringify({
         model: 'gpt-4o',
@@ -276,55 +372,6 @@ class GitHubModelsProvider implements AIProvider {
       req.end();
     });
   }
-
-  private buildPrompt(snapshot: ContextSnapshot): string {
-    const escapeField = (val: any): string => {
-      if (!val) return '';
-      return String(val).replace(/`/g, '\\`').replace(/\$/g, '\\$');
-    };
-
-    return `You are a technical AI assistant. Analyze this workspace snapshot and provide a concise summary that will help you or another AI quickly understand the project context.
-
-## Workspace Metadata
-- Name: ${escapeField(snapshot.workspaceMetadata.name)}
-- Language: ${escapeField(snapshot.workspaceMetadata.mainLanguage)}
-- Node Version: ${escapeField(snapshot.workspaceMetadata.nodeVersion) || 'N/A'}
-
-## Project Structure
-Directories: ${snapshot.projectStructure.directories.map(escapeField).join(', ')}
-Key Files: ${snapshot.projectStructure.keyFiles.map(escapeField).join(', ')}
-
-## Git Status
-- Branch: ${escapeField(snapshot.git.branch)}
-- Recent Commits: ${snapshot.git.recentCommits.map((c) => escapeField(c.message)).join('\n  - ')}
-- Modified Files: ${snapshot.git.modifiedFiles.map(escapeField).join(', ') || 'None'}
-- Staged Files: ${snapshot.git.stagedFiles.map(escapeField).join(', ') || 'None'}
-
-## Open Editors
-${snapshot.openEditors.map((e) => `- ${escapeField(e.path)} (${escapeField(e.language)}, ${e.lines} lines)`).join('\n')}
-
-## Deployment Context (if mentioned)
-${snapshot.deploymentContext.location ? `- Location: ${escapeField(snapshot.deploymentContext.location)}` : ''}
-${snapshot.deploymentContext.accessMethod ? `- Access: ${escapeField(snapshot.deploymentContext.accessMethod)}` : ''}
-${snapshot.deploymentContext.deploymentMethod ? `- Method: ${escapeField(snapshot.deploymentContext.deploymentMethod)}` : ''}
-${snapshot.deploymentContext.currentWorkMode ? `- Work Mode: ${escapeField(snapshot.deploymentContext.currentWorkMode)}` : ''}
-${snapshot.deploymentContext.isProduction !== undefined ? `- Environment: ${snapshot.deploymentContext.isProduction ? 'Production' : 'Development'}` : ''}
-
-## Required Extensions
-${snapshot.vscodeContext.requiredExtensions.map(escapeField).join(', ') || 'None'}
-
-## Task
-Provide a comprehensive summary covering:
-1. What is this project building?
-2. What is the tech stack?
-3. What is the project structure and architecture?
-4. What is currently being worked on?
-5. What changed recently?
-6. What is the deployment environment (if any)?
-7. Any important context for continuing development?
-
-Keep the summary concise but complete.`;
-  }
 }
 
 /**
@@ -335,9 +382,7 @@ class OllamaProvider implements AIProvider {
 
   constructor(private endpoint: string = 'http://localhost:11434') {}
 
-  async summarize(snapshot: ContextSnapshot): Promise<string> {
-    const prompt = this.buildPrompt(snapshot);
-
+  async complete(prompt: string): Promise<string> {
     return new Promise((resolve, reject) => {
       const url = new URL(`${this.endpoint}/api/generate`);
       const isHttps = url.protocol === 'https:';
@@ -368,8 +413,17 @@ class OllamaProvider implements AIProvider {
         });
         res.on('end', () => {
           try {
+            if (!res.statusCode || res.statusCode < 200 || res.statusCode >= 300) {
+              reject(new Error(`Ollama error (${res.statusCode}): ${data}`));
+              return;
+            }
+
             const parsed = JSON.parse(data);
-            resolve(parsed.response || '');
+            if (!parsed.response) {
+              reject(new Error('Empty response from Ollama'));
+              return;
+            }
+            resolve(parsed.response);
           } catch (e) {
             reject(new Error(`Failed to parse Ollama response: ${e}`));
           }
@@ -389,68 +443,116 @@ class OllamaProvider implements AIProvider {
       req.end();
     });
   }
+}
 
-  private buildPrompt(snapshot: ContextSnapshot): string {
-    const escapeField = (val: any): string => {
-      if (!val) return '';
-      return String(val).replace(/`/g, '\\`').replace(/\$/g, '\\$');
-    };
-
-    return `You are a technical AI assistant. Analyze this workspace snapshot and provide a concise summary that will help you or another AI quickly understand the project context.
-
-## Workspace Metadata
-- Name: ${escapeField(snapshot.workspaceMetadata.name)}
-- Language: ${escapeField(snapshot.workspaceMetadata.mainLanguage)}
-- Node Version: ${escapeField(snapshot.workspaceMetadata.nodeVersion) || 'N/A'}
-
-## Project Structure
-Directories: ${snapshot.projectStructure.directories.map(escapeField).join(', ')}
-Key Files: ${snapshot.projectStructure.keyFiles.map(escapeField).join(', ')}
-
-## Git Status
-- Branch: ${escapeField(snapshot.git.branch)}
-- Recent Commits: ${snapshot.git.recentCommits.map((c) => escapeField(c.message)).join('\n  - ')}
-- Modified Files: ${snapshot.git.modifiedFiles.map(escapeField).join(', ') || 'None'}
-- Staged Files: ${snapshot.git.stagedFiles.map(escapeField).join(', ') || 'None'}
-
-## Open Editors
-${snapshot.openEditors.map((e) => `- ${escapeField(e.path)} (${escapeField(e.language)}, ${e.lines} lines)`).join('\n')}
-
-## Deployment Context (if mentioned)
-${snapshot.deploymentContext.location ? `- Location: ${escapeField(snapshot.deploymentContext.location)}` : ''}
-${snapshot.deploymentContext.accessMethod ? `- Access: ${escapeField(snapshot.deploymentContext.accessMethod)}` : ''}
-${snapshot.deploymentContext.deploymentMethod ? `- Method: ${escapeField(snapshot.deploymentContext.deploymentMethod)}` : ''}
-${snapshot.deploymentContext.currentWorkMode ? `- Work Mode: ${escapeField(snapshot.deploymentContext.currentWorkMode)}` : ''}
-${snapshot.deploymentContext.isProduction !== undefined ? `- Environment: ${snapshot.deploymentContext.isProduction ? 'Production' : 'Development'}` : ''}
-
-## Required Extensions
-${snapshot.vscodeContext.requiredExtensions.map(escapeField).join(', ') || 'None'}
-
-## Task
-Provide a comprehensive summary covering:
-1. What is this project building?
-2. What is the tech stack?
-3. What is the project structure and architecture?
-4. What is currently being worked on?
-5. What changed recently?
-6. What is the deployment environment (if any)?
-7. Any important context for continuing development?
-
-Keep the summary concise but complete.`;
-  }
+interface OpenAIProviderOptions {
+  getApiKey: () => Promise<string | undefined>;
+  baseUrl: string;
+  model: string;
+  timeoutMs: number;
 }
 
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
 /**
- * OpenAI provider
+ * OpenAI-compatible chat-completions provider.
+ * Works against api.openai.com, Azure-style gateways and local servers
+ * (llama.cpp, vLLM) that expose `POST {baseUrl}/chat/completions`.
  */
 class OpenAIProvider implements AIProvider {
   name = 'OpenAI';
 
-  constructor(private apiKey: string) {}
+  constructor(private options: OpenAIProviderOptions) {
+    if (options.baseUrl.replace(/\/+$/, '') !== DEFAULT_OPENAI_BASE_URL) {
+      this.name = `OpenAI-compatible (${options.baseUrl})`;
+    }
+  }
+
+  async complete(prompt: string): Promise<string> {
+    const { model, timeoutMs } = this.options;
+    const apiKey = await this.options.getApiKey();
+    const baseUrl = this.options.baseUrl.replace(/\/+$/, '');
 
-  async summarize(snapshot: ContextSnapshot): Promise<string> {
-    // TODO: Implement OpenAI API call
-    throw new Error('OpenAI provider not yet implemented');
+    if (!apiKey && baseUrl === DEFAULT_OPENAI_BASE_URL) {
+      throw new Error('OpenAI API key not configured. Run "Set AI Provider Credential".');
+    }
+
+    return new Promise((resolve, reject) => {
+      let url: URL;
+      try {
+        url = new URL(`${baseUrl}/chat/completions`);
+      } catch (e) {
+        reject(new Error(`Invalid OpenAI base URL: ${baseUrl}`));
+        return;
+      }
+      const isHttps = url.protocol === 'https:';
+      const client = isHttps ? https : http;
+
+      const postData = JSON.stringify({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        temperature: 0.7,
+        max_tokens: 1024,
+      });
+
+      const headers: Record<string, string | number> = {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(postData),
+      };
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      const options = {
+        hostname: url.hostname,
+        port: url.port || (isHttps ? 443 : 80),
+        path: url.pathname + url.search,
+        method: 'POST',
+        timeout: timeoutMs,
+        headers,
+      };
+
+      const req = client.request(options, (res) => {
+        let data = '';
+        res.on('data', (chunk) => {
+          data += chunk;
+        });
+        res.on('end', () => {
+          try {
+            if (res.statusCode !== 200) {
+              reject(new Error(`OpenAI API error (${res.statusCode}): ${data}`));
+              return;
+            }
+
+            const parsed = JSON.parse(data);
+            const message = parsed.choices?.[0]?.message?.content || '';
+            if (!message) {
+              reject(new Error('Empty response from OpenAI API'));
+              return;
+            }
+            resolve(message.trim());
+          } catch (e) {
+            reject(new Error(`Failed to parse OpenAI response: ${e}`));
+          }
+        });
+      });
+
+      req.on('error', (e) => {
+        reject(new Error(`Failed to reach OpenAI API at ${baseUrl}: ${e.message}`));
+      });
+
+      req.on('timeout', () => {
+        req.destroy();
+        reject(new Error(`OpenAI API request timeout at ${baseUrl}`));
+      });
+
+      req.write(postData);
+      req.end();
+    });
   }
 }
-
@@ -0,0 +1,128 @@
+/**
+ * Estimates how many tokens a piece of text will consume in a model's context.
+ * Implementations only need to be roughly right; they are used for budgeting.
+ */
+export interface TokenEstimator {
+  name: string;
+  estimate(text: string): number;
+}
+
+/**
+ * ~4 characters per token, the usual rule of thumb for English text and code.
+ */
+export class CharTokenEstimator implements TokenEstimator {
+  name = 'chars/4';
+
+  estimate(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
+
+/**
+ * ~1.3 tokens per whitespace-separated word; closer for prose-heavy context.
+ */
+export class WordTokenEstimator implements TokenEstimator {
+  name = 'words×1.3';
+
+  estimate(text: string): number {
+    const words = text.trim().split(/\s+/).filter((w) => w.length > 0).length;
+    return Math.ceil(words * 1.3);
+  }
+}
+
+export function createTokenEstimator(name: string | undefined): TokenEstimator {
+  return name === 'words' ? new WordTokenEstimator() : new CharTokenEstimator();
+}
+
+export interface BriefingSection {
+  title: string;
+  content: string;
+  // When the section doesn't fit, keep as much of its beginning as the budget allows
+  truncatable?: boolean;
+}
+
+export interface BriefingResult {
+  text: string;
+  tokens: number;
+  included: string[];
+  truncated: string[];
+  omitted: string[];
+}
+
+// Below this many remaining tokens a truncated section is more noise than help
+const MIN_TRUNCATED_TOKENS = 60;
+// Room kept for the "omitted" footer
+const FOOTER_RESERVE_TOKENS = 150;
+const MAX_LISTED_OMISSIONS = 10;
+
+/**
+ * BriefingBuilder assembles sections, given in priority order, into a
+ * markdown briefing that fits a token budget and reports what it left out.
+ */
+export class BriefingBuilder {
+  constructor(private estimator: TokenEstimator = new CharTokenEstimator()) {}
+
+  /**
+   * @param budget maximum tokens for the whole briefing; 0 disables the limit
+   */
+  build(intro: string, sections: BriefingSection[], budget: number): BriefingResult {
+    const result: BriefingResult = { text: intro, tokens: 0, included: [], truncated: [], omitted: [] };
+    const unlimited = budget <= 0;
+    let remaining = unlimited ? Infinity : budget - this.estimator.estimate(intro) - FOOTER_RESERVE_TOKENS;
+
+    for (const section of sections) {
+      const block = `${section.content.trim()}\n\n---\n\n`;
+      const cost = this.estimator.estimate(block);
+      if (cost <= remaining) {
+        result.text += block;
+        result.included.push(section.title);
+        remaining -= cost;
+        continue;
+      }
+
+      if (section.truncatable && remaining >= MIN_TRUNCATED_TOKENS) {
+        const marker = '\n\n_[…truncated to fit the token budget]_\n\n---\n\n';
+        const fitted = this.truncateToFit(section.content.trim(), remaining - this.estimator.estimate(marker));
+        if (fitted) {
+          const truncatedBlock = fitted + marker;
+          result.text += truncatedBlock;
+          result.truncated.push(section.title);
+          remaining -= this.estimator.estimate(truncatedBlock);
+          continue;
+        }
+      }
+
+      result.omitted.push(section.title);
+    }
+
+    if (result.truncated.length > 0 || result.omitted.length > 0) {
+      result.text += `## Omitted From This Briefing\n\n_Token budget: ${budget} (estimated with ${this.estimator.name})_\n\n`;
+      result.truncated.forEach((title) => (result.text += `- Truncated: ${title}\n`));
+      result.omitted.slice(0, MAX_LISTED_OMISSIONS).forEach((title) => (result.text += `- Omitted: ${title}\n`));
+      if (result.omitted.length > MAX_LISTED_OMISSIONS) {
+        result.text += `- …and ${result.omitted.length - MAX_LISTED_OMISSIONS} more older item(s)\n`;
+      }
+    }
+
+    result.tokens = this.estimator.estimate(result.text);
+    return result;
+  }
+
+  /**
+   * Longest prefix of `text`, cut at a line boundary, that fits in `tokens`.
+   */
+  private truncateToFit(text: string, tokens: number): string {
+    const lines = text.split('\n');
+    let low = 0;
+    let high = lines.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.estimator.estimate(lines.slice(0, mid).join('\n')) <= tokens) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return lines.slice(0, low).join('\n').trim();
+  }
+}
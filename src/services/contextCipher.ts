@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+export const ENCRYPTION_INFO_FILE = '.encryption.json';
+const ENCRYPTED_PREFIX = 'PCENC1:';
+const KEY_CHECK_TEXT = 'persistent-context';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+// Marks a workspace context directory; see WorkspaceRegistry
+const WORKSPACE_INFO_FILE = '.workspace-info';
+// Workspace discovery metadata and git, sync or OS dotfiles that are not context
+const PLAIN_FILES = [WORKSPACE_INFO_FILE, ENCRYPTION_INFO_FILE, '.gitignore', '.gitattributes', '.sync.lock', '.DS_Store'];
+
+export type EncryptionKeySource = 'secretStorage' | 'passphrase';
+
+/**
+ * Stored in the storage directory while encryption is on. Holds no key, only
+ * what is needed to derive one from a passphrase and to tell a wrong key apart.
+ */
+export interface EncryptionInfo {
+  version: 1;
+  keySource: EncryptionKeySource;
+  // Base64 scrypt salt, for passphrase-derived keys
+  salt?: string;
+  // KEY_CHECK_TEXT encrypted with the key
+  check: string;
+}
+
+/**
+ * ContextCipher encrypts context files with AES-256-GCM. Encrypted files are
+ * a single `PCENC1:<base64 iv | tag | ciphertext>` line, so plaintext and
+ * encrypted files can be told apart and mixed during a migration.
+ */
+export class ContextCipher {
+  constructor(private key: Buffer) {
+    if (key.length !== 32) throw new Error('Context encryption key must be 32 bytes');
+  }
+
+  static generateKey(): Buffer {
+    return crypto.randomBytes(32);
+  }
+
+  static fromPassphrase(passphrase: string, salt: Buffer): ContextCipher {
+    return new ContextCipher(crypto.scryptSync(passphrase, salt, 32));
+  }
+
+  static isEncrypted(content: string): boolean {
+    return content.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  /**
+   * Files that stay plaintext: workspace discovery metadata, the encryption
+   * info itself, git and OS dotfiles, and prompt templates the user edits directly.
+   */
+  static isExcluded(fileName: string): boolean {
+    const base = path.basename(fileName);
+    return PLAIN_FILES.includes(base) || /^promptTemplate\.md$|PromptTemplate\.md$/.test(base);
+  }
+
+  encrypt(plain: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const data = Buffer.concat([cipher.update(plain, 'utf-8'), cipher.final()]);
+    return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), data]).toString('base64');
+  }
+
+  decrypt(content: string): string {
+    if (!ContextCipher.isEncrypted(content)) return content;
+    const raw = Buffer.from(content.slice(ENCRYPTED_PREFIX.length).trim(), 'base64');
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, raw.subarray(0, IV_LENGTH));
+      decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+      return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new Error('Failed to decrypt context file: wrong key or corrupted data');
+    }
+  }
+
+  createInfo(keySource: EncryptionKeySource, salt?: Buffer): EncryptionInfo {
+    return { version: 1, keySource, salt: salt?.toString('base64'), check: this.encrypt(KEY_CHECK_TEXT) };
+  }
+
+  /**
+   * Whether this cipher's key is the one the storage directory was encrypted with.
+   */
+  matches(info: EncryptionInfo): boolean {
+    try {
+      return this.decrypt(info.check) === KEY_CHECK_TEXT;
+    } catch {
+      return false;
+    }
+  }
+
+  static readInfo(storageRoot: string): EncryptionInfo | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(storageRoot, ENCRYPTION_INFO_FILE), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  static writeInfo(storageRoot: string, info: EncryptionInfo | undefined) {
+    const infoPath = path.join(storageRoot, ENCRYPTION_INFO_FILE);
+    if (!info) {
+      fs.rmSync(infoPath, { force: true });
+      return;
+    }
+    fs.mkdirSync(storageRoot, { recursive: true });
+    fs.writeFileSync(infoPath, JSON.stringify(info, null, 2), 'utf-8');
+  }
+
+  /**
+   * Encrypt (with `encrypt`) or decrypt every file in the workspace context
+   * directories under the storage `root`, skipping excluded files. Files at
+   * the root itself and in other directories, such as `.git`, are not touched.
+   * Files already in the target form are left alone, so an interrupted
+   * migration can be re-run. Returns the number of files rewritten.
+   */
+  transformDirectory(root: string, mode: 'encrypt' | 'decrypt'): number {
+    let changed = 0;
+    const walk = (dir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(full);
+          continue;
+        }
+        if (!entry.isFile() || ContextCipher.isExcluded(entry.name)) continue;
+        const content = fs.readFileSync(full, 'utf-8');
+        const encrypted = ContextCipher.isEncrypted(content);
+        if (mode === 'encrypt' && !encrypted) {
+          fs.writeFileSync(full, this.encrypt(content), 'utf-8');
+          changed++;
+        } else if (mode === 'decrypt' && encrypted) {
+          fs.writeFileSync(full, this.decrypt(content), 'utf-8');
+          changed++;
+        }
+      }
+    };
+    let contextDirs: string[];
+    try {
+      contextDirs = fs.readdirSync(root).map((name) => path.join(root, name));
+    } catch {
+      return 0;
+    }
+    contextDirs.filter((dir) => fs.existsSync(path.join(dir, WORKSPACE_INFO_FILE))).forEach(walk);
+    return changed;
+  }
+}
@@ -0,0 +1,260 @@
+import { FileService } from './fileService';
+import { AIService } from './aiService';
+
+export interface CompactionOptions {
+  keepUpdates: number;
+  keepDigests: number;
+  useAI: boolean;
+}
+
+export interface CompactionResult {
+  foldedUpdates: number;
+  archivedDigests: number;
+}
+
+interface ContextBlock {
+  kind: 'update' | 'digest';
+  date: string;
+  text: string;
+}
+
+interface DigestData {
+  date: string;
+  updates: number;
+  branches: string[];
+  sessions: string[];
+  summary?: string;
+  changes: string[];
+  commits: string[];
+  notes: string[];
+}
+
+// Marks the rolling summary kept near the top of activeContext.md
+export const ROLLING_SUMMARY_START = '<!-- rolling-summary:start -->';
+export const ROLLING_SUMMARY_END = '<!-- rolling-summary:end -->';
+
+const BLOCK_HEADING = /^## (Update|Digest): (.*)$/gm;
+// Written under entry headings, whose own time is in the user's locale and may not parse back
+const TIMESTAMP_COMMENT = /^<!-- ts: (\S+) -->$/m;
+const MAX_DIGEST_ITEMS = 30;
+
+/**
+ * ContextCompactor keeps activeContext.md bounded: the latest updates stay
+ * verbatim, older updates are folded into one digest per day (optionally
+ * AI-summarized) and digests beyond the retention limit, together with the raw
+ * text of every folded update, move to monthly archive/activeContext-YYYY-MM.md files.
+ */
+export class ContextCompactor {
+  private activeFile = 'activeContext.md';
+
+  constructor(
+    private fileService: FileService,
+    private aiService?: AIService,
+    private options: CompactionOptions = { keepUpdates: 20, keepDigests: 14, useAI: false }
+  ) {}
+
+  setOptions(options: CompactionOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Compact a different context file (e.g. a per-branch one); archives are named after it.
+   */
+  setActiveFile(fileName: string) {
+    this.activeFile = fileName;
+  }
+
+  /**
+   * Compact once the number of verbatim updates reaches twice the keep limit,
+   * so folding happens in batches rather than on every autosave.
+   */
+  async compactIfNeeded(): Promise<CompactionResult | undefined> {
+    const { updates } = ContextCompactor.parse(this.fileService.readFile(this.activeFile));
+    if (updates.length <= Math.max(1, this.options.keepUpdates) * 2) return undefined;
+    return this.compact();
+  }
+
+  async compact(): Promise<CompactionResult> {
+    const keepUpdates = Math.max(1, this.options.keepUpdates);
+    const initial = ContextCompactor.parse(this.fileService.readFile(this.activeFile));
+    const toFold = initial.updates.slice(0, Math.max(0, initial.updates.length - keepUpdates));
+    if (toFold.length === 0 && initial.digests.length <= this.options.keepDigests) {
+      return { foldedUpdates: 0, archivedDigests: 0 };
+    }
+
+    // Build the digests first; AI calls may take a while
+    const byDate = new Map<string, ContextBlock[]>();
+    toFold.forEach((block) => byDate.set(block.date, [...(byDate.get(block.date) || []), block]));
+    const newDigests = new Map<string, string>();
+    for (const [date, blocks] of byDate) {
+      const existing = initial.digests.find((d) => d.date === date);
+      const data = ContextCompactor.foldUpdates(date, blocks, existing ? ContextCompactor.parseDigest(existing) : undefined);
+      if (this.options.useAI && this.aiService) {
+        const activity = [...data.changes, ...data.commits, ...data.notes].slice(0, MAX_DIGEST_ITEMS * 2);
+        const summary = await this.aiService.complete(this.aiService.promptBuilder.buildDigest(date, activity, data.summary));
+        if (summary) data.summary = summary.trim();
+      }
+      newDigests.set(date, ContextCompactor.renderDigest(data));
+    }
+
+    // Re-read so updates appended while summarizing are not lost
+    const current = ContextCompactor.parse(this.fileService.readFile(this.activeFile));
+    const folded = new Set(toFold.map((b) => b.text));
+    const remainingUpdates = current.updates.filter((b) => !folded.has(b.text));
+
+    const digests = current.digests.filter((d) => !newDigests.has(d.date));
+    newDigests.forEach((text, date) => digests.push({ kind: 'digest', date, text }));
+    digests.sort((a, b) => a.date.localeCompare(b.date));
+    const evicted = digests.splice(0, Math.max(0, digests.length - Math.max(0, this.options.keepDigests)));
+
+    // Archive raw updates before removing them from the active file
+    toFold.forEach((block) => this.archive(block));
+    evicted.forEach((block) => this.archive(block));
+
+    this.fileService.writeFile(
+      this.activeFile,
+      current.preamble + digests.map((d) => d.text).join('') + remainingUpdates.map((u) => u.text).join('')
+    );
+
+    return { foldedUpdates: toFold.length, archivedDigests: evicted.length };
+  }
+
+  private archive(block: ContextBlock) {
+    const month = /^\d{4}-\d{2}/.test(block.date) ? block.date.substring(0, 7) : 'undated';
+    const archiveFile = `archive/${this.activeFile.replace(/\.md$/, '')}-${month}.md`;
+    if (!this.fileService.fileExists(archiveFile)) {
+      this.fileService.writeFile(archiveFile, `# Archived Project Context - ${month}\n`);
+    }
+    this.fileService.appendFile(archiveFile, block.text.trim() + '\n');
+  }
+
+  /**
+   * Split activeContext.md into the preamble (header and rolling summary),
+   * digest blocks and update blocks. Block text runs up to the next heading,
+   * so notes appended after an update stay with it.
+   */
+  static parse(content: string): { preamble: string; digests: ContextBlock[]; updates: ContextBlock[] } {
+    const headings: Array<{ index: number; kind: 'update' | 'digest'; title: string }> = [];
+    let match: RegExpExecArray | null;
+    BLOCK_HEADING.lastIndex = 0;
+    while ((match = BLOCK_HEADING.exec(content)) !== null) {
+      headings.push({ index: match.index, kind: match[1] === 'Update' ? 'update' : 'digest', title: match[2].trim() });
+    }
+
+    const preamble = headings.length > 0 ? content.slice(0, headings[0].index) : content;
+    const digests: ContextBlock[] = [];
+    const updates: ContextBlock[] = [];
+    headings.forEach((h, i) => {
+      const text = content.slice(h.index, i + 1 < headings.length ? headings[i + 1].index : content.length);
+      if (h.kind === 'digest') {
+        digests.push({ kind: 'digest', date: h.title.split(/\s/)[0], text });
+      } else {
+        updates.push({ kind: 'update', date: ContextCompactor.dateKey(ContextCompactor.stampedTime(text) || new Date(h.title)), text });
+      }
+    });
+    return { preamble, digests, updates };
+  }
+
+  /**
+   * Heading of a new `## <kind>:` entry: the time in the user's locale for
+   * reading, followed by a comment with the ISO time for parsing.
+   */
+  static heading(kind: string, date: Date = new Date()): string {
+    return `## ${kind}: ${date.toLocaleString()}\n${ContextCompactor.timestampComment(date)}`;
+  }
+
+  static timestampComment(date: Date = new Date()): string {
+    return `<!-- ts: ${date.toISOString()} -->`;
+  }
+
+  /**
+   * Time from an entry's timestamp comment; undefined for entries written
+   * before those existed.
+   */
+  static stampedTime(text: string): Date | undefined {
+    const match = text.match(TIMESTAMP_COMMENT);
+    const parsed = match ? new Date(match[1]) : undefined;
+    return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+  }
+
+  private static dateKey(parsed: Date): string {
+    if (isNaN(parsed.getTime())) return 'undated';
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+  }
+
+  private static foldUpdates(date: string, blocks: ContextBlock[], base?: DigestData): DigestData {
+    const data: DigestData = base || { date, updates: 0, branches: [], sessions: [], changes: [], commits: [], notes: [] };
+    const addUnique = (list: string[], items: string[]) => items.forEach((i) => { if (i && !list.includes(i)) list.push(i); });
+
+    for (const { text } of blocks) {
+      data.updates++;
+      addUnique(data.branches, [ContextCompactor.field(text, 'Branch')]);
+      addUnique(data.sessions, [
+        ContextCompactor.field(text, 'Session'),
+        (text.match(/^- Session: (.+)$/m) || [])[1]?.trim() || '',
+      ].filter((s) => s && s !== 'No active session'));
+      addUnique(data.changes, ContextCompactor.bullets(text, 'What Changed').filter((l) => l !== '- No workspace changes'));
+      addUnique(data.commits, ContextCompactor.bullets(text, 'Recent Commits'));
+      addUnique(data.notes, text.split('\n').filter((l) => l.startsWith('- Note (')).map((l) => l.trim()));
+    }
+    return data;
+  }
+
+  private static field(text: string, name: string): string {
+    const match = text.match(new RegExp(`^\\*\\*${name}:\\*\\* (.+)$`, 'm'));
+    return match ? match[1].trim() : '';
+  }
+
+  /**
+   * Bullet lines of a `### <section>` within a block, up to the next heading or rule.
+   */
+  static bullets(text: string, section: string): string[] {
+    const lines = text.split('\n');
+    const start = lines.findIndex((l) => l.trim() === `### ${section}`);
+    if (start < 0) return [];
+    const result: string[] = [];
+    for (const line of lines.slice(start + 1)) {
+      if (line.startsWith('### ') || line.startsWith('## ') || line.trim() === '---') break;
+      if (line.startsWith('- ')) result.push(line.trim());
+    }
+    return result;
+  }
+
+  private static parseDigest(block: ContextBlock): DigestData {
+    const text = block.text;
+    const items = (section: string) => ContextCompactor.bullets(text, section).filter((l) => !l.startsWith('- …and '));
+    const list = (name: string) => {
+      const value = ContextCompactor.field(text, name);
+      return value ? value.split(', ') : [];
+    };
+    const summaryMatch = text.match(/### Summary\n([\s\S]*?)(?=\n### |\n---|$)/);
+    return {
+      date: block.date,
+      updates: parseInt((text.match(/\((\d+) updates?\)/) || [])[1] || '0', 10),
+      branches: list('Branches'),
+      sessions: list('Sessions'),
+      summary: summaryMatch ? summaryMatch[1].trim() : undefined,
+      changes: items('Changes'),
+      commits: items('Commits'),
+      notes: items('Notes'),
+    };
+  }
+
+  private static renderDigest(data: DigestData): string {
+    const section = (title: string, items: string[]) => {
+      if (items.length === 0) return '';
+      const shown = items.slice(-MAX_DIGEST_ITEMS);
+      const more = items.length > shown.length ? `\n- …and ${items.length - shown.length} earlier` : '';
+      return `\n### ${title}\n${shown.join('\n')}${more}\n`;
+    };
+
+    return `## Digest: ${data.date} (${data.updates} update${data.updates === 1 ? '' : 's'})
+
+**Branches:** ${data.branches.join(', ') || 'unknown'}
+${data.sessions.length > 0 ? `**Sessions:** ${data.sessions.join(', ')}\n` : ''}${data.summary ? `\n### Summary\n${data.summary}\n` : ''}${section('Changes', data.changes)}${section('Commits', data.commits)}${section('Notes', data.notes)}
+---
+
+`;
+  }
+}
@@ -3,29 +3,80 @@ import * as path from 'path';
 import * as os from 'os';
 import * as crypto from 'crypto';
 import * as vscode from 'vscode';
-import { Session, ProjectContext } from '../utils/types';
+import { Session, SessionFilter, ProjectContext, Decision } from '../utils/types';
 import { FileService } from './fileService';
+import { ContextCipher } from './contextCipher';
+import { CredentialStore } from './credentialStore';
 import { GitService } from './gitService';
 import { AIService } from './aiService';
 import { ContextSnapshotCollector, ContextSnapshot } from './snapshotCollector';
+import { SnapshotDiffer } from './snapshotDiff';
+import { SnapshotStore } from './snapshotStore';
+import { ContextCompactor, CompactionResult, ROLLING_SUMMARY_START, ROLLING_SUMMARY_END } from './contextCompactor';
+import { DecisionLog, DECISIONS_FILE, NewDecision } from './decisionLog';
+import { SessionStore, PROGRESS_FILE } from './sessionStore';
+import { ActivityTracker } from './activityTracker';
+import { SessionRetrospective, Retrospective, RetrospectiveInput } from './sessionRetrospective';
+import { ContextSearch, OllamaEmbedder } from './contextSearch';
+import { WORKSPACE_INFO_FILE } from './workspaceRegistry';
+import { BriefingBuilder, BriefingResult, BriefingSection, createTokenEstimator } from './briefingBuilder';
 import { ChatContextWatcher } from './chatContextWatcher';
+import { Redactor, RedactionFindings } from './redactor';
+import { WorkspacePolicy } from './workspacePolicy';
+import { DEFAULT_PROMPT_TEMPLATE, PROMPT_TEMPLATE_FILE } from './promptBuilder';
+
+const ACTIVE_CONTEXT_FILE = 'activeContext.md';
+const SUMMARY_STATE_FILE = 'summaryState.json';
+
+/**
+ * Last rolling summary and the snapshot it was produced from, persisted so
+ * the next update only has to describe what changed.
+ */
+interface SummaryState {
+  summary?: string;
+  snapshot: ContextSnapshot;
+  updatedAt: string;
+}
 
 export class ContextManager {
   private contextDir: string;
+  // Common storage directory holding every workspace's context directory
+  private storageRoot: string;
   readonly workspaceRoot: string;
   private currentSession?: Session;
   readonly fileService: FileService;
   readonly gitService: GitService;
   readonly aiService: AIService;
   readonly snapshotCollector: ContextSnapshotCollector;
+  readonly snapshotStore: SnapshotStore;
+  readonly decisionLog: DecisionLog;
+  readonly sessionStore: SessionStore;
+  readonly redactor: Redactor;
+  private policy: WorkspacePolicy;
+  private compactor: ContextCompactor;
+  private contextSearch = new ContextSearch();
+  private searchAllWorkspaces: boolean = false;
+  private activityTracker = new ActivityTracker();
   private chatWatcher: ChatContextWatcher;
   private autosaveIntervalMs = 60000;
   private autosaveTimer?: NodeJS.Timeout;
+  private lastSavedAt?: Date;
   private enableAutosave: boolean = true;
   private enableChangeLogging: boolean = true;
+  private summaryMode: 'rolling' | 'append' = 'rolling';
+  private enableSnapshotHistory: boolean = true;
+  private enableCompaction: boolean = true;
+  private enableRetrospective: boolean = true;
   private configWatcher?: vscode.Disposable;
-  private prevOpenFiles: string = '';
-  private prevGitChanges: string = '';
+  // Per-branch mode: the branch whose context files are in use and the .git/HEAD watcher
+  private sessionPerBranch: boolean = false;
+  private currentBranch?: string;
+  private headWatcher?: fs.FSWatcher;
+  private headCheckTimer?: NodeJS.Timeout;
+  private activeContextFile = ACTIVE_CONTEXT_FILE;
+  private summaryStateFile = SUMMARY_STATE_FILE;
+  private sessionChangeListener?: (sessionName?: string) => void;
+  private lastRecordedSnapshot?: ContextSnapshot;
   readonly recentChatContext: string[] = [];
   readonly deploymentContext: {
     location?: string;
@@ -35,27 +86,32 @@ export class ContextManager {
     currentWorkMode?: string;
   } = {};
 
-  constructor(workspaceRoot: string) {
+  /**
+   * @param cipher Unlocked context encryption key, when the storage directory is encrypted
+   */
+  constructor(workspaceRoot: string, cipher?: ContextCipher, credentials?: CredentialStore) {
     this.workspaceRoot = workspaceRoot;
     // Use common directory outside workspace to prevent accidental commits
-    const cfg = vscode.workspace.getConfiguration('persistentContext');
-    const storageSetting = cfg.get<string>('storageDirectory');
-    const commonDir = (storageSetting && storageSetting.trim()) 
-      ? storageSetting 
-      : path.join(os.homedir(), '.vscode-persistent-context');
+    const commonDir = ContextManager.storageRootFromConfig();
     
     // Create a hash of the workspace path for unique identification
     const workspaceHash = crypto.createHash('md5').update(workspaceRoot).digest('hex').substring(0, 8);
     const workspaceName = path.basename(workspaceRoot);
     
+    this.storageRoot = commonDir;
     this.contextDir = path.join(commonDir, `${workspaceName}-${workspaceHash}`);
-    this.fileService = new FileService(this.contextDir);
+    this.fileService = new FileService(this.contextDir, cipher);
     this.gitService = new GitService(workspaceRoot);
-    this.aiService = new AIService(workspaceRoot);
-    this.snapshotCollector = new ContextSnapshotCollector(workspaceRoot, this.gitService);
+    this.aiService = new AIService(workspaceRoot, this.fileService, credentials);
+    this.redactor = new Redactor(this.fileService);
+    this.snapshotCollector = new ContextSnapshotCollector(workspaceRoot, this.gitService, this.redactor);
+    this.snapshotStore = new SnapshotStore(this.contextDir, undefined, cipher);
+    this.contextSearch.setCipher(cipher);
+    this.decisionLog = new DecisionLog(this.fileService);
+    this.sessionStore = new SessionStore(this.fileService);
+    this.compactor = new ContextCompactor(this.fileService, this.aiService);
     this.chatWatcher = new ChatContextWatcher((context) => this.onChatContextExtracted(context));
-    this.ensureContextDir();
-    this.initializeWorkspaceInfo(workspaceRoot);
+    this.policy = WorkspacePolicy.permissive(workspaceRoot);
     // Read configuration and start autosave according to settings
     this.loadConfiguration();
     this.configWatcher = vscode.workspace.onDidChangeConfiguration(e => {
@@ -63,6 +119,29 @@ export class ContextManager {
     });
   }
 
+  /**
+   * The common storage directory from `persistentContext.storageDirectory`.
+   */
+  static storageRootFromConfig(): string {
+    const storageSetting = vscode.workspace.getConfiguration('persistentContext').get<string>('storageDirectory');
+    return (storageSetting && storageSetting.trim())
+      ? storageSetting
+      : path.join(os.homedir(), '.vscode-persistent-context');
+  }
+
+  /**
+   * Switch encryption at rest on (with the unlocked key) or off for files written from now on.
+   */
+  setCipher(cipher?: ContextCipher) {
+    this.fileService.setCipher(cipher);
+    this.snapshotStore.setCipher(cipher);
+    this.contextSearch.setCipher(cipher);
+  }
+
+  getCipher(): ContextCipher | undefined {
+    return this.fileService.getCipher();
+  }
+
   private loadConfiguration() {
     try {
       const cfg = vscode.workspace.getConfiguration('persistentContext');
@@ -70,66 +149,302 @@ export class ContextManager {
       this.autosaveIntervalMs = Math.max(5, interval) * 1000;
       this.enableAutosave = cfg.get<boolean>('enableAutosave', true);
       this.enableChangeLogging = cfg.get<boolean>('enableChangeLogging', true);
+      this.summaryMode = cfg.get<string>('summaryMode', 'rolling') === 'append' ? 'append' : 'rolling';
+      this.enableSnapshotHistory = cfg.get<boolean>('enableSnapshotHistory', true);
+      this.redactor.setOptions({
+        enabled: cfg.get<boolean>('enableRedaction', true),
+        customPatterns: cfg.get<string[]>('redactionPatterns', []) || [],
+      });
+      this.snapshotStore.setRetention({
+        maxCount: Math.max(0, cfg.get<number>('snapshotRetentionCount', 500)),
+        maxAgeDays: Math.max(0, cfg.get<number>('snapshotRetentionDays', 30)),
+      });
+      this.activityTracker.setIdleThreshold(Math.max(1, cfg.get<number>('idleThreshold', 5)) * 60 * 1000);
+      this.enableCompaction = cfg.get<boolean>('enableCompaction', true);
+      this.compactor.setOptions({
+        keepUpdates: Math.max(1, cfg.get<number>('compactionKeepUpdates', 20)),
+        keepDigests: Math.max(0, cfg.get<number>('compactionKeepDigests', 14)),
+        useAI: cfg.get<boolean>('compactionUseAI', false),
+      });
+      this.applyPolicy(WorkspacePolicy.load(this.workspaceRoot));
+      this.enableRetrospective = cfg.get<boolean>('enableSessionRetrospective', true);
+      this.searchAllWorkspaces = cfg.get<boolean>('searchAllWorkspaces', false);
+      const embeddingEndpoint = cfg.get<string>('ollamaEndpoint', 'http://localhost:11434');
+      const embeddingAllowed = this.policy.rules.allowRemoteAIProviders || WorkspacePolicy.isLocalEndpoint(embeddingEndpoint);
+      this.contextSearch.setEmbedder(cfg.get<boolean>('semanticSearch', false) && embeddingAllowed
+        ? new OllamaEmbedder(
+          embeddingEndpoint,
+          cfg.get<string>('embeddingModel', 'nomic-embed-text') || 'nomic-embed-text'
+        )
+        : undefined);
+      this.sessionPerBranch = cfg.get<boolean>('sessionPerBranch', false);
+      this.configureBranchTracking();
       if (this.enableAutosave) this.startAutosave(); else this.stopAutosave();
     } catch (e) {
       console.error('persistent-context: loadConfiguration error', e);
     }
   }
 
+  /**
+   * Apply the workspace privacy rules: excluded paths to snapshots, AI
+   * restrictions to the provider chain. The context directory is only created
+   * while tracking is enabled.
+   */
+  private applyPolicy(policy: WorkspacePolicy) {
+    this.policy = policy;
+    this.snapshotCollector.setPolicy(policy);
+    this.aiService.setPolicy({
+      enabled: policy.rules.enableAISummaries,
+      allowRemote: policy.rules.allowRemoteAIProviders,
+    });
+    if (policy.rules.enableTracking) {
+      this.ensureContextDir();
+      this.initializeWorkspaceInfo(this.workspaceRoot);
+    } else {
+      this.stopAutosave();
+    }
+  }
+
+  /**
+   * Re-read the privacy rules, e.g. after .persistent-context.json changed.
+   */
+  reloadPolicy() {
+    this.loadConfiguration();
+  }
+
+  isTrackingEnabled(): boolean {
+    return this.policy.rules.enableTracking;
+  }
+
+  /**
+   * Write sessions to the store; nothing is written while tracking is disabled.
+   */
+  private persistSessions(...sessions: Session[]) {
+    if (!this.policy.rules.enableTracking) return;
+    this.sessionStore.save(...sessions);
+  }
+
   private ensureContextDir() {
     this.fileService.ensureDir();
   }
 
   private initializeWorkspaceInfo(workspaceRoot: string) {
-    // Store workspace path for reference
-    const infoPath = path.join(this.contextDir, '.workspace-info');
-    if (!fs.existsSync(infoPath)) {
-      fs.writeFileSync(infoPath, JSON.stringify({
-        workspacePath: workspaceRoot,
-        created: new Date().toISOString()
-      }, null, 2), 'utf-8');
+    // Store workspace path for reference, and the machine it belongs to so
+    // pruning on another machine that syncs the storage leaves it alone
+    const infoPath = path.join(this.contextDir, WORKSPACE_INFO_FILE);
+    let info: { workspacePath?: string; created?: string; machineId?: string } | undefined;
+    try {
+      info = fs.existsSync(infoPath) ? JSON.parse(fs.readFileSync(infoPath, 'utf-8')) : undefined;
+    } catch {
+      info = undefined;
     }
+    if (info?.machineId) return;
+    fs.writeFileSync(infoPath, JSON.stringify({
+      workspacePath: info?.workspacePath || workspaceRoot,
+      created: info?.created || new Date().toISOString(),
+      machineId: vscode.env.machineId,
+    }, null, 2), 'utf-8');
   }
 
-  startSession(name: string) {
+  startSession(name: string, tags: string[] = []) {
+    if (!this.policy.rules.enableTracking) return;
+    this.pauseSession();
     this.currentSession = {
       id: Date.now().toString(),
       name: name,
       startTime: new Date(),
+      tags: tags.length > 0 ? tags : undefined,
+      boundBranch: this.sessionPerBranch ? this.currentBranch : undefined,
     };
+    this.activityTracker.start();
+    this.persistSessions(this.currentSession);
     // Fire and forget - errors are logged internally
-    void this.saveActiveContext().catch((err) =>
+    void this.saveActiveContext(true).catch((err) =>
       console.error('[persistent-context] Failed to save active context:', err.message)
     );
     this.startAutosave();
   }
 
-  endSession(notes?: string) {
-    if (this.currentSession) {
-      this.currentSession.endTime = new Date();
-      this.currentSession.notes = notes;
-      this.saveSessionHistory();
-      this.currentSession = undefined;
-      this.stopAutosave();
+  /**
+   * End the current session. The session is closed immediately; when
+   * retrospectives are enabled the promise resolves once the retrospective has
+   * been written to the session (and so to progress.md).
+   */
+  async endSession(notes?: string): Promise<Retrospective | undefined> {
+    const session = this.currentSession;
+    if (!session) return undefined;
+    this.activityTracker.stop(session);
+    session.endTime = new Date();
+    session.pausedAt = undefined;
+    session.notes = notes ? this.redactor.redact(notes, 'session notes') : notes;
+    this.persistSessions(session);
+    this.currentSession = undefined;
+    this.stopAutosave();
+
+    if (!this.enableRetrospective) return undefined;
+    try {
+      const retrospective = await new SessionRetrospective(this.aiService).write(this.gatherRetrospectiveInput(session));
+      // Re-read: the session may have been resumed or tagged while the AI was working
+      const latest = this.sessionStore.get(session.id) || session;
+      latest.retrospective = retrospective.text;
+      this.persistSessions(latest);
+      const current = this.getCurrentSession();
+      if (current?.id === session.id) current.retrospective = retrospective.text;
+      return retrospective;
+    } catch (e) {
+      console.error('[persistent-context] Failed to write session retrospective:', e);
+      return undefined;
+    }
+  }
+
+  private gatherRetrospectiveInput(session: Session): RetrospectiveInput {
+    const headings = new Set(session.updates || []);
+    const { updates } = ContextCompactor.parse(this.fileService.readFile(this.activeContextFile));
+    const changes = updates
+      .filter(u => headings.has(u.text.split('\n')[0].replace(/^## Update:\s*/, '').trim()))
+      .flatMap(u => ContextCompactor.bullets(u.text, 'What Changed'))
+      .filter(line => line !== '- No workspace changes');
+
+    return {
+      session,
+      changes,
+      commits: this.gitService.getCommitsBetween(session.startTime, session.endTime),
+      notes: [...(session.noteEntries || []).map(n => n.text), ...(session.notes ? [session.notes] : [])],
+      chat: [...this.recentChatContext],
+      pendingFiles: this.lastRecordedSnapshot?.git.modifiedFiles || this.gitService.getChangedFiles(),
+    };
+  }
+
+  /**
+   * Pause the current session, keeping its id so it can be resumed later
+   * (also after a restart). Returns the paused session's name, if any.
+   */
+  pauseSession(): string | undefined {
+    const session = this.currentSession;
+    if (!session) return undefined;
+    this.activityTracker.stop(session);
+    session.pausedAt = new Date();
+    this.persistSessions(session);
+    this.currentSession = undefined;
+    this.stopAutosave();
+    return session.name;
+  }
+
+  /**
+   * Signal editor or git activity; credits active time to the current session.
+   */
+  recordActivity() {
+    if (!this.currentSession) return;
+    if (!this.activityTracker.isTracking()) {
+      this.activityTracker.start();
+      return;
     }
+    this.activityTracker.record(this.currentSession);
   }
 
   dispose() {
+    // Pause rather than drop the session so the next window can resume it
+    this.pauseSession();
     this.stopAutosave();
+    this.stopHeadWatcher();
     if (this.configWatcher) this.configWatcher.dispose();
     this.chatWatcher.dispose();
   }
 
+  /**
+   * Called with the new session name whenever the current session changes
+   * without a user command (branch switches).
+   */
+  setSessionChangeListener(listener: (sessionName?: string) => void) {
+    this.sessionChangeListener = listener;
+  }
+
+  private configureBranchTracking() {
+    this.stopHeadWatcher();
+    if (!this.sessionPerBranch) {
+      this.currentBranch = undefined;
+      this.useContextFilesFor(undefined);
+      return;
+    }
+
+    this.currentBranch = this.gitService.getCurrentBranch();
+    this.useContextFilesFor(this.currentBranch);
+    const headPath = this.gitService.getGitPath('HEAD');
+    if (!headPath || !fs.existsSync(headPath)) return;
+    try {
+      // git replaces HEAD via rename, so watch the directory rather than the file
+      this.headWatcher = fs.watch(path.dirname(headPath), (_event, fileName) => {
+        if (fileName && fileName.toString() !== path.basename(headPath)) return;
+        if (this.headCheckTimer) clearTimeout(this.headCheckTimer);
+        this.headCheckTimer = setTimeout(() => this.checkBranch(), 500);
+      });
+    } catch (e) {
+      console.error('[persistent-context] Failed to watch git HEAD; branch changes are checked on autosave:', e);
+    }
+  }
+
+  private stopHeadWatcher() {
+    if (this.headCheckTimer) clearTimeout(this.headCheckTimer);
+    this.headCheckTimer = undefined;
+    this.headWatcher?.close();
+    this.headWatcher = undefined;
+  }
+
+  /**
+   * Point activeContext.md, the rolling summary state and compaction at the
+   * files for `branch` (the shared files when undefined).
+   */
+  private useContextFilesFor(branch?: string) {
+    const suffix = branch && branch !== 'unknown' ? `.${ContextManager.branchSlug(branch)}` : '';
+    this.activeContextFile = ACTIVE_CONTEXT_FILE.replace(/\.md$/, `${suffix}.md`);
+    this.summaryStateFile = SUMMARY_STATE_FILE.replace(/\.json$/, `${suffix}.json`);
+    this.compactor.setActiveFile(this.activeContextFile);
+    // Diffs across branches would only describe the switch itself
+    this.lastRecordedSnapshot = undefined;
+  }
+
+  static branchSlug(branch: string): string {
+    return branch.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'branch';
+  }
+
+  /**
+   * In per-branch mode, react to a branch switch: pause the current session,
+   * switch to the new branch's context files and resume the session bound to
+   * that branch (or start one named after it). Detached HEADs are ignored.
+   * Returns true when a switch happened.
+   */
+  checkBranch(branch: string = this.gitService.getCurrentBranch()): boolean {
+    if (!this.sessionPerBranch || !branch || branch === 'unknown' || branch === 'HEAD') return false;
+    if (branch === this.currentBranch) return false;
+
+    const hadSession = !!this.currentSession;
+    this.pauseSession();
+    this.currentBranch = branch;
+    this.useContextFilesFor(branch);
+    if (!hadSession) return true;
+
+    const bound = this.sessionStore.list()
+      .filter(s => s.boundBranch === branch && !s.endTime && !s.mergedInto)
+      .pop();
+    if (bound) {
+      this.resumeSession(bound.id);
+    } else {
+      this.startSession(branch);
+    }
+    this.sessionChangeListener?.(this.currentSession?.name);
+    return true;
+  }
+
   private startAutosave() {
     this.stopAutosave();
+    if (!this.policy.rules.enableTracking) return;
     this.autosaveTimer = setInterval(() => {
-      // Always save the active context (records idle or active)
+      // Save the active context and log passive changes (open files / git changes);
+      // unchanged snapshots are skipped in rolling mode
       // Fire and forget - errors are logged internally
       void this.saveActiveContext().catch((err) =>
         console.error('[persistent-context] Failed to save active context:', err.message)
       );
-      // Detect passive changes (open files / git changes) and log them
-      this.detectAndRecordChanges();
     }, this.autosaveIntervalMs);
   }
 
@@ -140,12 +455,37 @@ export class ContextManager {
     }
   }
 
-  private detectAndRecordChanges() {
-    // Changes are now captured in activeContext.md updates
-    // This method is kept for potential future use but does nothing now
+  /**
+   * Diff the snapshot against the previously recorded one and append the
+   * changes to changes.md. The first snapshot after activation only sets the baseline.
+   */
+  private detectAndRecordChanges(snapshot: ContextSnapshot) {
+    const previous = this.lastRecordedSnapshot;
+    this.lastRecordedSnapshot = snapshot;
+
+    if (!previous) return;
+
+    const diff = SnapshotDiffer.diff(previous, snapshot);
+    if (SnapshotDiffer.isEmpty(diff)) return;
+    this.recordActivity();
+    if (!this.enableChangeLogging) return;
+
+    if (!this.fileService.fileExists('changes.md')) {
+      this.fileService.writeFile('changes.md', '# Change Log\n\nPassive workspace changes detected between autosaves.\n');
+    }
+    const entry = `${ContextCompactor.heading('Changes')}
+
+**Branch:** ${snapshot.git.branch}
+**Session:** ${this.currentSession?.name || 'No active session'}
+
+${SnapshotDiffer.format(diff).join('\n')}
+`;
+    this.fileService.appendFile('changes.md', entry);
   }
 
-  private onChatContextExtracted(context: string) {
+  private onChatContextExtracted(rawContext: string) {
+    if (!this.policy.rules.enableTracking) return;
+    const context = this.redactor.redact(rawContext, 'chat');
     // Store recent chat context (keep last 10)
     this.recentChatContext.push(context);
     if (this.recentChatContext.length > 10) {
@@ -157,7 +497,7 @@ export class ContextManager {
 
     // Trigger immediate activeContext update with chat context
     // Chat context is now included in the activeContext.md update
-    void this.saveActiveContext().catch((err) =>
+    void this.saveActiveContext(true).catch((err) =>
       console.error('[persistent-context] Failed to save active context after chat:', err.message)
     );
   }
@@ -223,46 +563,63 @@ export class ContextManager {
     }
   }
 
-  private async saveActiveContext() {
+  /**
+   * Collect a snapshot and record it in activeContext.md.
+   * In rolling mode the AI call and the update entry are skipped when the
+   * snapshot is materially unchanged, unless `force` is set (explicit user
+   * actions such as starting a session or adding a note).
+   */
+  private async saveActiveContext(force: boolean = false) {
+    if (!this.policy.rules.enableTracking) return;
     try {
       const snapshot = await this.snapshotCollector.collect();
+      // Fallback for missed HEAD watcher events; a switch saves the new branch's context itself
+      if (this.checkBranch(snapshot.git.branch)) return;
       
       // Merge tracked deployment context into snapshot
       snapshot.deploymentContext = { ...this.deploymentContext };
-      
-      const aiSummary = await this.aiService.summarize(snapshot);
+      if (this.enableSnapshotHistory) {
+        // Unchanged autosaves would fill the history with copies of the same state
+        const previous = this.snapshotStore.latest()?.snapshot;
+        if (force || !previous || !SnapshotDiffer.isEmpty(SnapshotDiffer.diff(previous, snapshot))) {
+          this.snapshotStore.save(snapshot);
+        }
+      }
+      this.detectAndRecordChanges(snapshot);
+      if (this.currentSession) {
+        // Persist active time and git links accumulated since the last save
+        this.linkSessionToGit(snapshot);
+        this.persistSessions(this.currentSession);
+      }
+
+      let summarySection: string;
+      if (this.summaryMode === 'rolling') {
+        const changes = await this.updateRollingSummary(snapshot, force);
+        if (!changes) return;
+        summarySection = `### What Changed
+${changes.length > 0 ? changes.join('\n') : '- No workspace changes'}`;
+      } else {
+        const aiSummary = await this.aiService.summarize(snapshot);
+        summarySection = `### Project Summary
+${aiSummary || this.buildFallbackSummary(snapshot)}`;
+      }
 
       const sessionName = this.currentSession?.name || 'No active session';
       const status = this.currentSession ? 'In progress' : 'Idle';
-      const timestamp = new Date().toLocaleString();
-
-      // Check if activeContext.md exists
-      const existingContent = this.fileService.fileExists('activeContext.md') 
-        ? this.fileService.readFile('activeContext.md') 
-        : '';
+      const now = new Date();
+      const timestamp = now.toLocaleString();
 
-      // If file doesn't exist, create the header
-      if (!existingContent) {
-        const header = `# Project Context - ${sessionName}
-
-This file tracks the evolution of the project. New updates are appended below.
-
----
-
-`;
-        this.fileService.writeFile('activeContext.md', header);
-      }
+      this.ensureActiveContextHeader(sessionName);
 
       // Build the update entry
       const updateEntry = `
-## Update: ${timestamp}
+${ContextCompactor.heading('Update', now)}
 
 **Status:** ${status}
 **Branch:** ${snapshot.git.branch}
 **AI Provider:** ${this.aiService.getProviderName()}
 
-### Project Summary
-${aiSummary || this.buildFallbackSummary(snapshot)}
+${summarySection}
 
 ### Current Work
 - Session: ${sessionName}
@@ -290,7 +647,15 @@ ${snapshot.git.recentCommits.map((c) => `- ${c.hash}: ${c.message}`).join('\n')}
 `;
 
       // Append the update
-      this.fileService.appendFile('activeContext.md', updateEntry);
+      this.fileService.appendFile(this.activeContextFile, updateEntry);
+      this.lastSavedAt = new Date();
+      if (this.currentSession) {
+        this.currentSession.updates = [...(this.currentSession.updates || []), timestamp];
+        this.persistSessions(this.currentSession);
+      }
+      if (this.enableCompaction) {
+        await this.compactor.compactIfNeeded();
+      }
     } catch (error) {
       console.error('[persistent-context] Failed to save active context:', error);
       // Continue with basic logging if AI fails
@@ -299,7 +664,7 @@ ${snapshot.git.recentCommits.map((c) => `- ${c.hash}: ${c.message}`).join('\n')}
   }
 
   private saveBasicContext() {
-    const openFiles = vscode.window.visibleTextEditors
+    const openFiles = this.policy.filterPaths(vscode.window.visibleTextEditors, editor => editor.document.fileName)
       .map(editor => path.basename(editor.document.fileName))
       .join('\n');
 
@@ -308,11 +673,33 @@ ${snapshot.git.recentCommits.map((c) => `- ${c.hash}: ${c.message}`).join('\n')}
 
     const sessionName = this.currentSession?.name || 'No active session';
     const status = this.currentSession ? 'In progress' : 'Idle';
-    const timestamp = new Date().toLocaleString();
 
+    this.ensureActiveContextHeader(sessionName);
+
+    const updateEntry = `
+${ContextCompactor.heading('Update')}
+
+**Status:** ${status}
+**Branch:** ${branch}
+**Session:** ${sessionName}
+
+### Open Files
+${openFiles || 'No files open'}
+
+### Recent Commits
+${recentCommits || 'No commits yet'}
+
+---
+`;
+
+    this.fileService.appendFile(this.activeContextFile, updateEntry);
+    this.lastSavedAt = new Date();
+  }
+
+  private ensureActiveContextHeader(sessionName: string) {
     // Check if activeContext.md exists
-    const existingContent = this.fileService.fileExists('activeContext.md') 
-      ? this.fileService.readFile('activeContext.md') 
+    const existingContent = this.fileService.fileExists(this.activeContextFile) 
+      ? this.fileService.readFile(this.activeContextFile) 
       : '';
 
     // If file doesn't exist, create the header
@@ -324,26 +711,77 @@ This file tracks the evolution of the project. New updates are appended below.
 ---
 
 `;
-      this.fileService.writeFile('activeContext.md', header);
+      this.fileService.writeFile(this.activeContextFile, header);
     }
+  }
 
-    const updateEntry = `
-## Update: ${timestamp}
+  /**
+   * Feed the previous summary plus the snapshot diff to the AI and replace the
+   * rolling summary block in activeContext.md with the result.
+   * Returns the formatted change list, or null when nothing material changed.
+   */
+  private async updateRollingSummary(snapshot: ContextSnapshot, force: boolean): Promise<string[] | null> {
+    const state = this.loadSummaryState();
+    const changes = state ? SnapshotDiffer.format(SnapshotDiffer.diff(state.snapshot, snapshot)) : [];
+    if (state && changes.length === 0 && !force) {
+      return null;
+    }
 
-**Status:** ${status}
-**Branch:** ${branch}
-**Session:** ${sessionName}
+    const aiSummary = state?.summary
+      ? await this.aiService.updateSummary(snapshot, state.summary, changes)
+      : await this.aiService.summarize(snapshot);
+    const summary = aiSummary || state?.summary;
+
+    // Without a new summary keep the previous baseline, so the next run still
+    // hands these changes to the AI
+    if (aiSummary || !state) {
+      this.fileService.writeFile(this.summaryStateFile, JSON.stringify({
+        summary,
+        snapshot,
+        updatedAt: new Date().toISOString(),
+      } as SummaryState, null, 2));
+    }
 
-### Open Files
-${openFiles || 'No files open'}
+    this.ensureActiveContextHeader(this.currentSession?.name || 'No active session');
+    const block = `${ROLLING_SUMMARY_START}
+## Current Summary
 
-### Recent Commits
-${recentCommits || 'No commits yet'}
+_Last updated: ${new Date().toLocaleString()} · AI Provider: ${aiSummary ? this.aiService.getProviderName() : 'none'}_
+${ContextCompactor.timestampComment()}
 
----
-`;
+${summary || this.buildFallbackSummary(snapshot)}
+${ROLLING_SUMMARY_END}`;
+
+    const content = this.fileService.readFile(this.activeContextFile);
+    const start = content.indexOf(ROLLING_SUMMARY_START);
+    const end = content.indexOf(ROLLING_SUMMARY_END);
+    if (start >= 0 && end > start) {
+      this.fileService.writeFile(
+        this.activeContextFile,
+        content.slice(0, start) + block + content.slice(end + ROLLING_SUMMARY_END.length)
+      );
+    } else {
+      // Place the summary right after the header so it is the first thing readers see
+      const divider = content.indexOf('\n---\n');
+      const insertAt = divider >= 0 ? divider + '\n---\n'.length : content.length;
+      this.fileService.writeFile(
+        this.activeContextFile,
+        content.slice(0, insertAt) + '\n' + block + '\n\n---\n' + content.slice(insertAt)
+      );
+    }
+
+    return changes;
+  }
 
-    this.fileService.appendFile('activeContext.md', updateEntry);
+  private loadSummaryState(): SummaryState | undefined {
+    const raw = this.fileService.readFile(this.summaryStateFile);
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw) as SummaryState;
+    } catch (e) {
+      console.error('[persistent-context] Failed to parse summary state, starting fresh:', e);
+      return undefined;
+    }
   }
 
   private buildFallbackSummary(snapshot: ContextSnapshot): string {
@@ -364,49 +802,48 @@ ${recentCommits || 'No commits yet'}
 `;
   }
 
-  private saveSessionHistory() {
-    const historyFile = 'progress.md';
-    let content = '';
-
-    if (this.fileService.fileExists(historyFile)) {
-      content = this.fileService.readFile(historyFile);
-    }
-
-    const sessionEntry = `\n## Session: ${this.currentSession?.name}\n- ID: ${this.currentSession?.id}\n**Date:** ${this.currentSession?.startTime.toLocaleString()}\n**Notes:** ${this.currentSession?.notes || 'No notes'}\n`;
-
-    this.fileService.appendFile(historyFile, sessionEntry);
-  }
-
   /**
-   * Return the most recent session name from progress.md, or undefined.
+   * Return the most recently started session's name, or undefined.
    */
   peekLastSessionName(): string | undefined {
-    const history = this.fileService.readFile('progress.md');
-    if (!history) return undefined;
-    const match = history.match(/## Session:\s*(.+)/m);
-    if (match && match[1]) return match[1].trim();
-    return undefined;
+    return this.sessionStore.latest()?.name;
   }
 
   /**
-   * Resume a previous session by name without prompting the user.
+   * Resume a stored session by id or name without prompting the user. The
+   * session keeps its id, start time and accumulated active time; an unknown
+   * name starts a new session with that name. Without an argument the most
+   * recently paused session is resumed.
    */
-  resumeSession(name: string) {
-    this.currentSession = {
+  resumeSession(idOrName?: string): string | undefined {
+    if (!this.policy.rules.enableTracking) return undefined;
+    const stored = idOrName
+      ? this.sessionStore.get(idOrName) || this.sessionStore.findByName(idOrName)
+      : this.sessionStore.list().filter(s => s.pausedAt).pop();
+    if (!stored && !idOrName) return undefined;
+    if (stored && this.currentSession?.id === stored.id) return stored.name;
+
+    this.pauseSession();
+    this.currentSession = stored || {
       id: Date.now().toString(),
-      name: name,
+      name: idOrName!,
       startTime: new Date(),
     };
+    this.currentSession.pausedAt = undefined;
+    this.currentSession.endTime = undefined;
+    this.activityTracker.start();
+    this.persistSessions(this.currentSession);
     // Fire and forget - errors are logged internally
-    void this.saveActiveContext().catch((err) =>
+    void this.saveActiveContext(true).catch((err) =>
       console.error('[persistent-context] Failed to save active context:', err.message)
     );
     this.startAutosave();
+    return this.currentSession.name;
   }
 
   copyContextToClipboard() {
-    if (this.fileService.fileExists('activeContext.md')) {
-      const content = this.fileService.readFile('activeContext.md');
+    if (this.fileService.fileExists(this.activeContextFile)) {
+      const content = this.fileService.readFile(this.activeContextFile);
       vscode.env.clipboard.writeText(content);
       vscode.window.showInformationMessage('✓ Context copied to clipboard');
     }
@@ -416,19 +853,34 @@ ${recentCommits || 'No commits yet'}
     const options = ['Active Context', 'Session History'];
     vscode.window.showQuickPick(options, { placeHolder: 'View active context or session history' }).then(choice => {
       if (!choice) return;
-      const fileName = choice === 'Active Context' ? 'activeContext.md' : 'progress.md';
-      const contextFile = path.join(this.contextDir, fileName);
-      if (fs.existsSync(contextFile)) {
-        vscode.workspace.openTextDocument(contextFile).then(doc => {
-          vscode.window.showTextDocument(doc);
-        });
+      const fileName = choice === 'Active Context' ? this.activeContextFile : PROGRESS_FILE;
+      if (this.fileService.fileExists(fileName)) {
+        void this.openContextFile(fileName);
       } else {
         vscode.window.showInformationMessage(`No ${choice === 'Active Context' ? 'active' : 'session'} context found`);
       }
     });
   }
 
-  addNote(note: string) {
+  /**
+   * Add a note to the current session, or to a stored session by id. Only
+   * notes for the current session are also appended to the active context.
+   */
+  addNote(rawNote: string, sessionId?: string) {
+    if (!this.policy.rules.enableTracking) return;
+    const note = this.redactor.redact(rawNote, 'note');
+    if (sessionId && sessionId !== this.currentSession?.id) {
+      const stored = this.sessionStore.get(sessionId);
+      if (!stored) {
+        vscode.window.showInformationMessage('Session not found');
+        return;
+      }
+      stored.noteEntries = [...(stored.noteEntries || []), { timestamp: new Date(), text: note }];
+      this.persistSessions(stored);
+      vscode.window.showInformationMessage(`✓ Note added to ${stored.name}`);
+      return;
+    }
+
     if (!this.currentSession) {
       vscode.window.showInformationMessage('No active session to add a note to');
       return;
@@ -438,131 +890,404 @@ ${recentCommits || 'No commits yet'}
     const noteLine = `- Note (${ts}): ${note}`;
 
     // Append to active context
-    const active = this.fileService.readFile('activeContext.md') || '';
+    const active = this.fileService.readFile(this.activeContextFile) || '';
     const updated = active + '\n' + noteLine + '\n';
-    this.fileService.writeFile('activeContext.md', updated);
+    this.fileService.writeFile(this.activeContextFile, updated);
 
-    // Append a note entry to history
-    const historyNote = `\n### Note for session ${this.currentSession.name} (${ts})\n${note}\n`;
-    this.fileService.appendFile('progress.md', historyNote);
+    // Record the note on the session; progress.md is regenerated from the store
+    this.currentSession.noteEntries = [...(this.currentSession.noteEntries || []), { timestamp: new Date(), text: note }];
+    this.persistSessions(this.currentSession);
 
     vscode.window.showInformationMessage('✓ Note added');
     // Fire and forget - errors are logged internally
-    void this.saveActiveContext().catch((err) =>
+    void this.saveActiveContext(true).catch((err) =>
       console.error('[persistent-context] Failed to save active context:', err.message)
     );
   }
 
   /**
-   * Show a list of past sessions from progress.md and open the selected session.
+   * Show past sessions (newest first), optionally narrowed by tag, branch,
+   * issue or date range, and open the selected session. Without a filter the
+   * user is asked how to filter first.
    */
-  viewSession() {
-    const history = this.fileService.readFile('progress.md');
-    if (!history) {
+  async viewSession(filter?: SessionFilter) {
+    const all = this.getSessions();
+    if (all.length === 0) {
       vscode.window.showInformationMessage('No session history available');
       return;
     }
 
-    const parts = history.split(/\n## Session:\s*/).filter(p => p.trim().length > 0);
-    const items = parts.map(p => {
-      const firstLine = p.split('\n')[0].trim();
-      const title = firstLine || 'Unnamed session';
-      return { label: title, content: '## Session: ' + p };
+    const appliedFilter = filter || await this.pickSessionFilter(all);
+    if (!appliedFilter) return;
+    const sessions = SessionStore.filter(all, appliedFilter);
+    if (sessions.length === 0) {
+      vscode.window.showInformationMessage('No sessions match the filter');
+      return;
+    }
+
+    const items = sessions.map(s => ({
+      label: s.name,
+      description: s.startTime.toLocaleString(),
+      detail: [
+        s.endTime ? `Ended ${s.endTime.toLocaleString()}` : s.pausedAt ? 'Paused' : 'In progress',
+        ...(s.tags || []).map(t => `#${t}`),
+        ...(s.branches || []),
+        ...(s.issues || []),
+      ].join(' · '),
+      id: s.id,
+    }));
+
+    const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Select a session to view' });
+    if (!choice) return;
+    const picked = this.sessionStore.get(choice.id);
+    if (!picked) return;
+    const doc = await vscode.workspace.openTextDocument({
+      content: SessionStore.renderSession(picked, this.sessionStore.list()),
+      language: 'markdown',
     });
+    vscode.window.showTextDocument(doc);
+  }
 
-    vscode.window.showQuickPick(items.map(i => i.label), { placeHolder: 'Select a session to view' }).then(choice => {
-      if (!choice) return;
-      const picked = items.find(i => i.label === choice);
-      if (!picked) return;
-      vscode.workspace.openTextDocument({ content: picked.content, language: 'markdown' }).then(doc => {
-        vscode.window.showTextDocument(doc);
+  private async pickSessionFilter(sessions: Session[]): Promise<SessionFilter | undefined> {
+    const values = (key: 'tags' | 'branches' | 'issues') =>
+      [...new Set(sessions.flatMap(s => s[key] || []))].sort();
+    const options = [
+      { label: 'All sessions', key: 'all' },
+      { label: 'By tag', key: 'tags' },
+      { label: 'By branch', key: 'branches' },
+      { label: 'By issue', key: 'issues' },
+      { label: 'By date range', key: 'dates' },
+    ].filter(o => o.key === 'all' || o.key === 'dates' || values(o.key as 'tags').length > 0);
+
+    const mode = await vscode.window.showQuickPick(options, { placeHolder: 'Filter sessions' });
+    if (!mode) return undefined;
+    if (mode.key === 'all') return {};
+
+    if (mode.key === 'dates') {
+      const range = await vscode.window.showInputBox({
+        prompt: 'Date range (YYYY-MM-DD..YYYY-MM-DD, either side may be empty)',
+        placeHolder: `${ActivityTracker.dayKey(new Date(Date.now() - 7 * 86400000))}..`,
       });
+      return range === undefined ? undefined : ContextManager.parseDateRange(range);
+    }
+
+    const key = mode.key as 'tags' | 'branches' | 'issues';
+    const value = await vscode.window.showQuickPick(values(key), { placeHolder: `Select ${mode.label.slice(3)}` });
+    if (!value) return undefined;
+    return key === 'tags' ? { tag: value } : key === 'branches' ? { branch: value } : { issue: value };
+  }
+
+  /**
+   * Parse "YYYY-MM-DD..YYYY-MM-DD" (local days, open-ended on either side) into a filter.
+   */
+  static parseDateRange(range: string): SessionFilter {
+    const [fromText, toText] = range.includes('..') ? range.split('..') : [range, range];
+    const day = (text: string | undefined, endOfDay: boolean) => {
+      const match = (text || '').trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (!match) return undefined;
+      const [y, m, d] = [parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)];
+      return endOfDay ? new Date(y, m, d, 23, 59, 59, 999) : new Date(y, m, d);
+    };
+    return { from: day(fromText, false), to: day(toText, true) };
+  }
+
+  /**
+   * Replace the current session's tags. Returns false when no session is active.
+   */
+  setSessionTags(tags: string[]): boolean {
+    if (!this.currentSession) return false;
+    this.currentSession.tags = [...new Set(tags.map(t => t.trim().replace(/^#/, '')).filter(t => t.length > 0))];
+    this.persistSessions(this.currentSession);
+    return true;
+  }
+
+  /**
+   * Record the branch the current session is on and the issue ids referenced
+   * by that branch name and by commits made since the session started.
+   */
+  private linkSessionToGit(snapshot: ContextSnapshot) {
+    const session = this.currentSession;
+    if (!session) return;
+    const union = (list: string[] | undefined, items: string[]) => [...new Set([...(list || []), ...items])];
+
+    const branch = snapshot.git.branch;
+    if (branch && branch !== 'unknown' && branch !== 'HEAD') {
+      session.branches = union(session.branches, [branch]);
+    }
+    const issues = [
+      ...GitService.extractIssueIds(branch, true),
+      ...this.gitService.getCommitMessagesSince(session.startTime).flatMap(m => GitService.extractIssueIds(m)),
+    ];
+    if (issues.length > 0) {
+      session.issues = union(session.issues, issues);
+    }
+  }
+
+  /**
+   * Search the persisted context (this workspace, or every workspace under the
+   * storage directory when `searchAllWorkspaces` is set) and open the chosen
+   * section at its heading.
+   */
+  async searchContext(query?: string) {
+    const text = query ?? await vscode.window.showInputBox({
+      prompt: 'Search persisted context',
+      placeHolder: 'e.g., webhook retries, ADR-0003, PAY-42',
     });
+    if (!text || !text.trim()) return;
+
+    this.contextSearch.refresh(this.searchAllWorkspaces ? this.getWorkspaceContextDirs() : [this.contextDir]);
+    // Embedding uncached sections can take a while; cancelling falls back to keyword ranking
+    const results = this.contextSearch.isSemantic()
+      ? await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Embedding context for search', cancellable: true },
+        (_progress, token) => this.contextSearch.search(text, token)
+      )
+      : await this.contextSearch.search(text);
+    if (results.length === 0) {
+      vscode.window.showInformationMessage(`No context matches "${text}"`);
+      return;
+    }
+
+    const items = results.map(r => ({
+      label: r.document.title,
+      description: `${this.searchAllWorkspaces ? `${r.document.workspace} · ` : ''}${path.relative(path.join(this.storageRoot, r.document.workspace), r.document.filePath)}:${r.document.line + 1}`,
+      detail: r.snippet,
+      result: r,
+    }));
+    const choice = await vscode.window.showQuickPick(items, { placeHolder: `${results.length} result(s) for "${text}"`, matchOnDetail: true });
+    if (!choice) return;
+    await this.openContextFile(choice.result.document.filePath, choice.result.document.line);
+  }
+
+  /**
+   * Context directories of every workspace under the storage directory.
+   */
+  getWorkspaceContextDirs(): string[] {
+    try {
+      return fs.readdirSync(this.storageRoot)
+        .map(name => path.join(this.storageRoot, name))
+        .filter(dir => fs.existsSync(path.join(dir, WORKSPACE_INFO_FILE)));
+    } catch {
+      return [this.contextDir];
+    }
   }
 
   /**
    * Open the persisted session history file in the editor.
    */
   viewHistory() {
-    const historyPath = path.join(this.contextDir, 'progress.md');
-    if (fs.existsSync(historyPath)) {
-      vscode.workspace.openTextDocument(historyPath).then(doc => vscode.window.showTextDocument(doc));
+    if (this.fileService.fileExists(PROGRESS_FILE)) {
+      void this.openContextFile(PROGRESS_FILE);
     } else {
       vscode.window.showInformationMessage('No session history available');
     }
   }
 
   /**
-   * Open the decision log (create a template if it doesn't exist).
+   * Open the decision log (created on first use).
    */
   viewDecisions() {
-    const decFile = path.join(this.contextDir, 'decisionLog.md');
-    if (!fs.existsSync(decFile)) {
-      const template = `# Decision Log\n\n*Date: ${new Date().toLocaleString()}*\n\n## New Decision\n- **Title:**\n- **Context:**\n- **Decision:**\n- **Consequences:**\n\n`;
-      this.fileService.writeFile('decisionLog.md', template);
+    if (!this.policy.rules.enableTracking) return;
+    this.decisionLog.ensureFile();
+    void this.openContextFile(DECISIONS_FILE);
+  }
+
+  /**
+   * Open a context file (relative to the context directory, or absolute) at a
+   * line. Encrypted files open as a decrypted, unsaved copy.
+   */
+  async openContextFile(filePath: string, line: number = 0) {
+    const fullPath = path.resolve(this.contextDir, filePath);
+    try {
+      const raw = fs.readFileSync(fullPath, 'utf-8');
+      const doc = ContextCipher.isEncrypted(raw)
+        ? await vscode.workspace.openTextDocument({
+          content: FileService.decode(raw, path.basename(fullPath), this.getCipher()),
+          language: fullPath.endsWith('.json') ? 'json' : 'markdown',
+        })
+        : await vscode.workspace.openTextDocument(fullPath);
+      await vscode.window.showTextDocument(doc, { selection: new vscode.Range(line, 0, line, 0) });
+    } catch (e) {
+      vscode.window.showErrorMessage(`Cannot open ${path.basename(fullPath)}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  /**
+   * Record a new ADR-style decision; superseded decisions are linked automatically.
+   */
+  addDecision(input: NewDecision): Decision | undefined {
+    if (!this.policy.rules.enableTracking) return undefined;
+    const decision = this.decisionLog.add(input);
+    if (this.currentSession) {
+      this.currentSession.noteEntries = [
+        ...(this.currentSession.noteEntries || []),
+        { timestamp: new Date(), text: `Decision: ${DecisionLog.formatId(decision.id)}: ${decision.title}` },
+      ];
+      this.persistSessions(this.currentSession);
+    }
+    return decision;
+  }
+
+  /**
+   * Fold older activeContext.md updates into daily digests and archive the rest now,
+   * regardless of the automatic threshold.
+   */
+  compactActiveContext(): Promise<CompactionResult> {
+    if (!this.policy.rules.enableTracking) return Promise.resolve({ foldedUpdates: 0, archivedDigests: 0 });
+    return this.compactor.compact();
+  }
+
+  /**
+   * Open the workspace prompt template (seeded from the built-in default if missing).
+   */
+  editPromptTemplate() {
+    if (!this.policy.rules.enableTracking) return;
+    const templateFile = path.join(this.contextDir, PROMPT_TEMPLATE_FILE);
+    if (!fs.existsSync(templateFile)) {
+      this.fileService.writeFile(PROMPT_TEMPLATE_FILE, DEFAULT_PROMPT_TEMPLATE + '\n');
     }
-    vscode.workspace.openTextDocument(decFile).then(doc => vscode.window.showTextDocument(doc));
+    vscode.workspace.openTextDocument(templateFile).then(doc => vscode.window.showTextDocument(doc));
   }
 
   /**
-   * Return an array of session titles parsed from progress.md (most recent first).
+   * Return session names from the session store (most recent first).
    */
   getSessionNames(): string[] {
-    const history = this.fileService.readFile('progress.md');
-    if (!history) return [];
-    const parts = history.split(/\n## Session:\s*/).filter(p => p.trim().length > 0);
-    const names = parts.map(p => {
-      const firstLine = p.split('\n')[0].trim();
-      return firstLine || 'Unnamed session';
-    });
-    return names;
+    return this.getSessions().map(s => s.name);
   }
 
   /**
-   * Merge the specified sessions (by name) into a new merged session entry and resume it.
-   * If `names` is empty or undefined, merge all sessions.
-   * Returns the new merged session name.
+   * Return stored sessions, most recent first. Sessions merged into another are
+   * left out; they stay in the store so the merge can be undone.
    */
-  mergeSessions(names?: string[]): string {
-    const history = this.fileService.readFile('progress.md');
-    if (!history) return '';
+  getSessions(): Session[] {
+    return this.sessionStore.list().filter(s => !s.mergedInto).reverse();
+  }
 
-    const parts = history.split(/\n## Session:\s*/).filter(p => p.trim().length > 0);
-    const entries = parts.map(p => ({
-      title: p.split('\n')[0].trim() || 'Unnamed session',
-      content: '## Session: ' + p,
-    }));
+  /**
+   * Return sessions matching the filter, most recent first.
+   */
+  filterSessions(filter: SessionFilter): Session[] {
+    return SessionStore.filter(this.getSessions(), filter);
+  }
+
+  /**
+   * Return merged sessions that can still be unmerged, most recent first.
+   */
+  getMergedSessions(): Session[] {
+    return this.getSessions().filter(s => s.mergedFrom && s.mergedFrom.length > 0);
+  }
+
+  getSession(id: string): Session | undefined {
+    return this.sessionStore.get(id);
+  }
 
-    const toMerge = names && names.length > 0 ? entries.filter(e => names.includes(e.title)) : entries;
-    if (toMerge.length === 0) return '';
+  /**
+   * Merge the specified sessions (by name or id) into a new merged session and resume it.
+   * If `names` is empty or undefined, merge all sessions. The sources are kept,
+   * linked to the merged session, and the index is backed up first so the merge
+   * can be undone with `unmergeSession`.
+   * Returns the new merged session name.
+   */
+  mergeSessions(names?: string[]): string {
+    if (!this.policy.rules.enableTracking) return '';
+    const select = () => {
+      const sessions = this.getSessions().reverse();
+      return names && names.length > 0
+        ? sessions.filter(s => names.includes(s.name) || names.includes(s.id))
+        : sessions;
+    };
+    if (select().length === 0) return '';
+    // Credit the running session's time before it is read for merging
+    this.pauseSession();
+    const toMerge = select();
+    const backup = this.sessionStore.backup();
 
     const mergedTitle = `Merged: ${new Date().toLocaleString()}`;
-    // Build merged content by stripping nested '## Session:' headers
-    const mergedContent = toMerge
-      .map(t => t.content.replace(/^## Session:\s*/i, '').trim())
-      .join('\n\n');
-
-    const mergedEntry = `\n## Session: ${mergedTitle}\n${mergedContent}\n`;
-    // Replace the previous session entries with the merged entry.
-    // Preserve any header content before the first '## Session:' if present.
-    const headerMatch = history.split(/\n## Session:\s*/)[0];
-    const newContent = (headerMatch && headerMatch.trim().length > 0 ? headerMatch + '\n' : '') + mergedEntry + '\n';
-    this.fileService.writeFile('progress.md', newContent);
-
-    // Start a new current session with the merged name
-    this.currentSession = {
+    const merged: Session = {
       id: Date.now().toString(),
       name: mergedTitle,
-      startTime: new Date(),
+      startTime: new Date(Math.min(...toMerge.map(s => s.startTime.getTime()))),
+      notes: toMerge.filter(s => s.notes).map(s => `${s.name}: ${s.notes}`).join('; ') || undefined,
+      noteEntries: toMerge.flatMap(s => (s.noteEntries || []).map(n => ({ timestamp: n.timestamp, text: `[${s.name}] ${n.text}` }))),
+      updates: toMerge.flatMap(s => s.updates || []),
+      activeMs: toMerge.reduce((sum, s) => sum + (s.activeMs || 0), 0),
+      activeByDay: toMerge.reduce((byDay, s) => {
+        Object.entries(s.activeByDay || {}).forEach(([day, ms]) => (byDay[day] = (byDay[day] || 0) + ms));
+        return byDay;
+      }, {} as Record<string, number>),
+      tags: [...new Set(toMerge.flatMap(s => s.tags || []))],
+      branches: [...new Set(toMerge.flatMap(s => s.branches || []))],
+      issues: [...new Set(toMerge.flatMap(s => s.issues || []))],
+      mergedFrom: toMerge.map(s => s.id),
+      mergeBackup: backup,
     };
+
+    toMerge.forEach(s => (s.mergedInto = merged.id));
+    this.currentSession = merged;
+    this.activityTracker.start();
+    this.persistSessions(merged, ...toMerge);
     // Fire and forget - errors are logged internally
-    void this.saveActiveContext().catch((err) =>
+    void this.saveActiveContext(true).catch((err) =>
       console.error('[persistent-context] Failed to save active context:', err.message)
     );
     this.startAutosave();
     return mergedTitle;
   }
 
+  /**
+   * Undo a merge: restore the source sessions as they were in the pre-merge
+   * backup and delete the merged session. Defaults to the most recent merge.
+   * Returns the restored session names (empty when there is nothing to undo).
+   */
+  unmergeSession(mergedId?: string): string[] {
+    if (!this.policy.rules.enableTracking) return [];
+    const merged = mergedId ? this.sessionStore.get(mergedId) : this.getMergedSessions()[0];
+    if (!merged || !merged.mergedFrom || merged.mergedFrom.length === 0) return [];
+
+    const sourceIds = merged.mergedFrom;
+    const backup = merged.mergeBackup ? this.sessionStore.loadBackup(merged.mergeBackup) : undefined;
+    if (!backup) {
+      console.warn(`[persistent-context] Merge backup missing for ${merged.id}; unlinking sources from the current index`);
+    }
+    const restored = sourceIds
+      .map(id => backup?.find(s => s.id === id) || this.sessionStore.get(id))
+      .filter((s): s is Session => !!s);
+    restored.forEach(s => (s.mergedInto = undefined));
+
+    if (this.currentSession?.id === merged.id) {
+      // Activity recorded after the merge goes with the merged session
+      this.activityTracker.stop(merged);
+      this.currentSession = undefined;
+      this.stopAutosave();
+    }
+    this.sessionStore.remove([merged.id]);
+    this.persistSessions(...restored);
+    return restored.map(s => s.name);
+  }
+
+  /**
+   * Delete a session from the index after backing the index up. Sessions
+   * merged into it become visible again. Returns the deleted session's name.
+   */
+  deleteSession(id: string): string | undefined {
+    if (!this.policy.rules.enableTracking) return undefined;
+    const session = this.sessionStore.get(id);
+    if (!session) return undefined;
+    this.sessionStore.backup();
+
+    if (this.currentSession?.id === id) {
+      this.activityTracker.stop(this.currentSession);
+      this.currentSession = undefined;
+      this.stopAutosave();
+    }
+    const sources = this.sessionStore.list().filter(s => s.mergedInto === id);
+    sources.forEach(s => (s.mergedInto = undefined));
+    this.sessionStore.remove([id]);
+    if (sources.length > 0) this.persistSessions(...sources);
+    return session.name;
+  }
+
   getCurrentSessionName(): string {
     return this.currentSession?.name || 'No active session';
   }
@@ -571,36 +1296,82 @@ ${recentCommits || 'No commits yet'}
     return !!this.currentSession;
   }
 
+  getCurrentSession(): Session | undefined {
+    return this.currentSession;
+  }
+
   /**
-   * Generate a comprehensive context summary for sharing with a new AI agent.
-   * Returns formatted markdown ready to paste into a chat.
+   * Active time of the current session including the stretch since the last
+   * activity signal, for live display. 0 without a session.
    */
-  generateAgentBriefing(): string {
-    const activeContext = this.fileService.readFile('activeContext.md');
-    const progressHistory = this.fileService.readFile('progress.md');
-    const decisions = this.fileService.readFile('decisions.md');
+  getActiveTime(): number {
+    if (!this.currentSession) return 0;
+    return (this.currentSession.activeMs || 0) + this.activityTracker.pendingMs();
+  }
 
-    let briefing = `# Project Context Briefing
+  /**
+   * When an update was last appended to the active context, if any since activation.
+   */
+  getLastSavedAt(): Date | undefined {
+    return this.lastSavedAt;
+  }
 
-This is the persistent context for the project. Use this to understand what we're building, recent work, and current state.
+  /**
+   * Generate a context briefing for sharing with a new AI agent.
+   * Material is added in priority order - latest summary, active decisions, recent
+   * sessions, recent updates, then older digests - until `tokenBudget` is
+   * reached (0 means unlimited). The briefing lists whatever was left out.
+   */
+  generateAgentBriefing(tokenBudget: number = 0): BriefingResult {
+    const activeContext = this.fileService.readFile(this.activeContextFile);
+    const decisions = this.decisionLog.active();
+    const sections: BriefingSection[] = [];
+
+    const { preamble, digests, updates } = ContextCompactor.parse(activeContext);
+    const newestUpdates = [...updates].reverse();
+    const start = preamble.indexOf(ROLLING_SUMMARY_START);
+    const end = preamble.indexOf(ROLLING_SUMMARY_END);
+    if (start >= 0 && end > start) {
+      sections.push({
+        title: 'Current summary',
+        content: preamble.slice(start + ROLLING_SUMMARY_START.length, end),
+        truncatable: true,
+      });
+    } else if (newestUpdates.length > 0) {
+      const latest = newestUpdates.shift()!;
+      sections.push({ title: 'Latest update', content: latest.text, truncatable: true });
+    }
 
----
+    if (decisions.length > 0) {
+      sections.push({
+        title: 'Key decisions',
+        content: `# Key Decisions\n\n${decisions.map(d => DecisionLog.render(d)).join('\n')}`,
+        truncatable: true,
+      });
+    }
 
-`;
+    this.getSessions().forEach(s => {
+      sections.push({ title: `Session: ${s.name}`, content: SessionStore.renderSession(s) });
+    });
 
-    if (activeContext) {
-      briefing += `${activeContext}\n\n---\n\n`;
-    }
+    newestUpdates.forEach(u => sections.push({ title: u.text.split('\n')[0].replace(/^## /, ''), content: u.text }));
+    [...digests].reverse().forEach(d => sections.push({ title: d.text.split('\n')[0].replace(/^## /, ''), content: d.text }));
 
-    if (progressHistory) {
-      briefing += `# Session History\n\n${progressHistory}\n\n---\n\n`;
-    }
+    const intro = `# Project Context Briefing
 
-    if (decisions) {
-      briefing += `# Key Decisions\n\n${decisions}\n\n`;
-    }
+This is the persistent context for the project. Use this to understand what we're building, recent work, and current state.
+
+---
+
+`;
 
-    return briefing;
+    const cfg = vscode.workspace.getConfiguration('persistentContext');
+    const builder = new BriefingBuilder(createTokenEstimator(cfg.get<string>('briefingTokenizer', 'chars')));
+    // Context written before redaction was enabled may still hold secrets
+    const findings: RedactionFindings = new Map();
+    const redacted = sections.map(section => ({ ...section, content: this.redactor.apply(section.content, findings) }));
+    this.redactor.report('briefing', findings);
+    return builder.build(intro, redacted, tokenBudget);
   }
 
   // Public getters for external services (needed by ContinuousLoop)
@@ -608,6 +1379,18 @@ This is the persistent context for the project. Use this to understand what we'r
     return this.workspaceRoot;
   }
 
+  public getContextDir(): string {
+    return this.contextDir;
+  }
+
+  public getStorageRoot(): string {
+    return this.storageRoot;
+  }
+
+  public getActiveContextFile(): string {
+    return this.activeContextFile;
+  }
+
   public getFileService(): FileService {
     return this.fileService;
   }
@@ -624,6 +1407,10 @@ This is the persistent context for the project. Use this to understand what we'r
     return this.snapshotCollector;
   }
 
+  public getSnapshotStore(): SnapshotStore {
+    return this.snapshotStore;
+  }
+
   public getRecentChatContext(): string[] {
     return this.recentChatContext;
   }
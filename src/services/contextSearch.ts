@@ -0,0 +1,368 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import * as crypto from 'crypto';
+import { ContextCipher } from './contextCipher';
+import { FileService } from './fileService';
+
+export interface SearchDocument {
+  id: string;
+  // Name of the `<name>-<hash>` context directory the document came from
+  workspace: string;
+  filePath: string;
+  // Zero-based line of the section heading, for jumping to the match
+  line: number;
+  title: string;
+  text: string;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: string;
+}
+
+/**
+ * Turns text into an embedding vector for semantic search.
+ */
+export interface Embedder {
+  name: string;
+  embed(text: string): Promise<number[]>;
+}
+
+/**
+ * Lets the caller stop a search from requesting more embeddings; matches
+ * vscode.CancellationToken.
+ */
+export interface SearchCancellation {
+  readonly isCancellationRequested: boolean;
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  documents: SearchDocument[];
+}
+
+const EMBEDDINGS_FILE = 'embeddings.json';
+const SECTION_HEADING = /^#{2,3} /;
+// Files in the context directory that are configuration rather than context
+const EXCLUDED_FILES = /PromptTemplate\.md$|^promptTemplate\.md$/;
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'not', 'but', 'you', 'all', 'any']);
+// Upper bound on new embeddings requested per search; the rest are embedded on later searches
+const MAX_NEW_EMBEDDINGS = 200;
+// Consecutive embedding failures after which a search stops requesting new ones
+const MAX_EMBEDDING_FAILURES = 3;
+const SNIPPET_LENGTH = 120;
+
+/**
+ * ContextSearch keeps an in-memory inverted index over the markdown files of
+ * one or more context directories (activeContext, progress, decisions, change
+ * logs, loop notes and archives), split into one document per `##`/`###`
+ * section. Files are re-indexed when their size or mtime changes. An optional
+ * Embedder adds semantic ranking; embeddings are cached in embeddings.json.
+ */
+export class ContextSearch {
+  private files = new Map<string, IndexedFile>();
+  private postings = new Map<string, Map<string, number>>();
+  private documents = new Map<string, SearchDocument>();
+
+  constructor(private embedder?: Embedder, private cipher?: ContextCipher) {}
+
+  setEmbedder(embedder?: Embedder) {
+    this.embedder = embedder;
+  }
+
+  isSemantic(): boolean {
+    return !!this.embedder;
+  }
+
+  setCipher(cipher?: ContextCipher) {
+    this.cipher = cipher;
+    // Encrypted files could not be read before; index everything again
+    [...this.files.keys()].forEach((f) => this.removeFile(f));
+  }
+
+  /**
+   * Bring the index up to date with the markdown files under `contextDirs`.
+   */
+  refresh(contextDirs: string[]) {
+    const seen = new Set<string>();
+    for (const dir of contextDirs) {
+      for (const filePath of ContextSearch.contextFiles(dir)) {
+        seen.add(filePath);
+        let stat: fs.Stats;
+        try {
+          stat = fs.statSync(filePath);
+        } catch {
+          continue;
+        }
+        const indexed = this.files.get(filePath);
+        if (indexed && indexed.mtimeMs === stat.mtimeMs && indexed.size === stat.size) continue;
+        if (indexed) this.removeFile(filePath);
+        this.addFile(filePath, path.basename(dir), stat);
+      }
+    }
+    [...this.files.keys()].filter((f) => !seen.has(f)).forEach((f) => this.removeFile(f));
+  }
+
+  /**
+   * Rank indexed sections against `query` by tf-idf. With an embedder the
+   * cosine similarity of the query and section embeddings is blended in, so
+   * sections without shared words can still match. Once `cancellation` is
+   * requested no new sections are embedded; the rest keep their keyword score.
+   */
+  async search(query: string, cancellation?: SearchCancellation, limit: number = 20): Promise<SearchResult[]> {
+    const terms = ContextSearch.tokenize(query);
+    const scores = new Map<string, number>();
+    const total = Math.max(1, this.documents.size);
+    for (const term of new Set(terms)) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + total / posting.size);
+      posting.forEach((tf, docId) => scores.set(docId, (scores.get(docId) || 0) + (1 + Math.log(tf)) * idf));
+    }
+
+    const maxLexical = Math.max(0, ...scores.values());
+    const ranked = new Map<string, number>();
+    scores.forEach((score, docId) => ranked.set(docId, maxLexical > 0 ? score / maxLexical : 0));
+
+    if (this.embedder && query.trim()) {
+      try {
+        const similarities = await this.semanticScores(query, cancellation);
+        similarities.forEach((similarity, docId) => {
+          ranked.set(docId, 0.5 * (ranked.get(docId) || 0) + 0.5 * Math.max(0, similarity));
+        });
+      } catch (e) {
+        console.error('[persistent-context] Semantic search failed, using keyword results only:', e);
+      }
+    }
+
+    return [...ranked.entries()]
+      .filter(([, score]) => score > 0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([docId, score]) => {
+        const document = this.documents.get(docId)!;
+        return { document, score, snippet: ContextSearch.snippet(document.text, terms) };
+      });
+  }
+
+  size(): number {
+    return this.documents.size;
+  }
+
+  private addFile(filePath: string, workspace: string, stat: fs.Stats) {
+    let content: string;
+    try {
+      content = FileService.decode(fs.readFileSync(filePath, 'utf-8'), filePath, this.cipher);
+    } catch (e) {
+      console.error(`[persistent-context] Skipping ${filePath} in search:`, e);
+      return;
+    }
+    const documents = ContextSearch.split(content, filePath, workspace);
+    this.files.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, documents });
+    for (const doc of documents) {
+      this.documents.set(doc.id, doc);
+      const counts = new Map<string, number>();
+      ContextSearch.tokenize(`${doc.title}\n${doc.text}`).forEach((t) => counts.set(t, (counts.get(t) || 0) + 1));
+      counts.forEach((tf, term) => {
+        if (!this.postings.has(term)) this.postings.set(term, new Map());
+        this.postings.get(term)!.set(doc.id, tf);
+      });
+    }
+  }
+
+  private removeFile(filePath: string) {
+    const indexed = this.files.get(filePath);
+    if (!indexed) return;
+    for (const doc of indexed.documents) {
+      this.documents.delete(doc.id);
+      ContextSearch.tokenize(`${doc.title}\n${doc.text}`).forEach((term) => {
+        const posting = this.postings.get(term);
+        posting?.delete(doc.id);
+        if (posting && posting.size === 0) this.postings.delete(term);
+      });
+    }
+    this.files.delete(filePath);
+  }
+
+  private async semanticScores(query: string, cancellation?: SearchCancellation): Promise<Map<string, number>> {
+    const embedder = this.embedder!;
+    const queryVector = await embedder.embed(query);
+    const caches = new Map<string, Record<string, number[]>>();
+    const dirty = new Set<string>();
+    const result = new Map<string, number>();
+    let requested = 0;
+    let failures = 0;
+
+    try {
+      for (const doc of this.documents.values()) {
+        const dir = ContextSearch.contextDirOf(doc.filePath);
+        if (!caches.has(dir)) caches.set(dir, this.loadEmbeddings(dir, embedder.name));
+        const cache = caches.get(dir)!;
+        const key = crypto.createHash('md5').update(doc.text).digest('hex');
+        if (!cache[key]) {
+          if (requested >= MAX_NEW_EMBEDDINGS || failures >= MAX_EMBEDDING_FAILURES || cancellation?.isCancellationRequested) continue;
+          requested++;
+          try {
+            cache[key] = await embedder.embed(doc.text);
+            failures = 0;
+          } catch (e) {
+            // The document keeps its keyword score and is retried on the next search
+            failures++;
+            console.error(`[persistent-context] Failed to embed ${doc.title} in ${doc.filePath}:`, e);
+            continue;
+          }
+          dirty.add(dir);
+        }
+        result.set(doc.id, ContextSearch.cosine(queryVector, cache[key]));
+      }
+    } finally {
+      // Vectors computed so far are kept even when a later step fails
+      dirty.forEach((dir) => {
+        const json = JSON.stringify({ model: embedder.name, vectors: caches.get(dir) });
+        try {
+          fs.writeFileSync(path.join(dir, EMBEDDINGS_FILE), this.cipher ? this.cipher.encrypt(json) : json, 'utf-8');
+        } catch (e) {
+          console.error(`[persistent-context] Failed to cache embeddings in ${dir}:`, e);
+        }
+      });
+    }
+    return result;
+  }
+
+  private loadEmbeddings(dir: string, model: string): Record<string, number[]> {
+    try {
+      const cached = JSON.parse(FileService.decode(fs.readFileSync(path.join(dir, EMBEDDINGS_FILE), 'utf-8'), EMBEDDINGS_FILE, this.cipher));
+      return cached.model === model && cached.vectors ? cached.vectors : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private static contextDirOf(filePath: string): string {
+    const dir = path.dirname(filePath);
+    return path.basename(dir) === 'archive' ? path.dirname(dir) : dir;
+  }
+
+  static contextFiles(dir: string): string[] {
+    const list = (d: string) => {
+      try {
+        return fs.readdirSync(d).filter((f) => f.endsWith('.md') && !EXCLUDED_FILES.test(f)).map((f) => path.join(d, f));
+      } catch {
+        return [];
+      }
+    };
+    return [...list(dir), ...list(path.join(dir, 'archive'))];
+  }
+
+  /**
+   * Split markdown into one document per section heading; text before the
+   * first heading becomes a document titled after the file.
+   */
+  static split(content: string, filePath: string, workspace: string): SearchDocument[] {
+    const lines = content.split('\n');
+    const docs: SearchDocument[] = [];
+    let start = 0;
+    const flush = (end: number) => {
+      const text = lines.slice(start, end).join('\n').trim();
+      if (text) {
+        const heading = lines[start].match(SECTION_HEADING) ? lines[start].replace(/^#+\s*/, '').trim() : path.basename(filePath);
+        docs.push({ id: `${filePath}#${start}`, workspace, filePath, line: start, title: heading, text });
+      }
+      start = end;
+    };
+    lines.forEach((line, i) => {
+      if (i > start && SECTION_HEADING.test(line)) flush(i);
+    });
+    flush(lines.length);
+    return docs;
+  }
+
+  static tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9][a-z0-9_#-]*[a-z0-9]|[a-z0-9]/g) || [])
+      .filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+  }
+
+  static cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  private static snippet(text: string, terms: string[]): string {
+    const flat = text.replace(/\s+/g, ' ');
+    const lower = flat.toLowerCase();
+    const hit = terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0).sort((a, b) => a - b)[0];
+    const from = Math.max(0, (hit ?? 0) - 30);
+    return (from > 0 ? '…' : '') + flat.substring(from, from + SNIPPET_LENGTH).trim();
+  }
+}
+
+/**
+ * Embeddings from a local Ollama server (`/api/embeddings`).
+ */
+export class OllamaEmbedder implements Embedder {
+  readonly name: string;
+
+  constructor(private endpoint: string = 'http://localhost:11434', private model: string = 'nomic-embed-text') {
+    this.name = `ollama:${model}`;
+  }
+
+  embed(text: string): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(`${this.endpoint}/api/embeddings`);
+      const isHttps = url.protocol === 'https:';
+      const client = isHttps ? https : http;
+      const postData = JSON.stringify({ model: this.model, prompt: text });
+
+      const req = client.request(
+        {
+          hostname: url.hostname,
+          port: url.port || (isHttps ? 443 : 80),
+          path: url.pathname + url.search,
+          method: 'POST',
+          timeout: 30000,
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(postData),
+          },
+        },
+        (res) => {
+          let data = '';
+          res.on('data', (chunk) => {
+            data += chunk;
+          });
+          res.on('end', () => {
+            try {
+              const parsed = JSON.parse(data);
+              if (!Array.isArray(parsed.embedding)) {
+                reject(new Error(`Ollama returned no embedding (${res.statusCode}): ${parsed.error || data.substring(0, 200)}`));
+                return;
+              }
+              resolve(parsed.embedding);
+            } catch (e) {
+              reject(new Error(`Failed to parse Ollama embedding response: ${e}`));
+            }
+          });
+        }
+      );
+
+      req.on('error', (e) => reject(new Error(`Failed to reach Ollama at ${this.endpoint}: ${e.message}`)));
+      req.on('timeout', () => {
+        req.destroy();
+        reject(new Error(`Ollama embedding request timeout at ${this.endpoint}`));
+      });
+      req.write(postData);
+      req.end();
+    });
+  }
+}
@@ -0,0 +1,432 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { ContextCipher } from './contextCipher';
+import { ContextCompactor, ROLLING_SUMMARY_START, ROLLING_SUMMARY_END } from './contextCompactor';
+import { FileService } from './fileService';
+import { SESSIONS_FILE } from './sessionStore';
+
+const execFileAsync = promisify(execFile);
+
+// Network operations (fetch/push) give up after this long instead of blocking later syncs
+const GIT_TIMEOUT_MS = 60000;
+const REMOTE_NAME = 'origin';
+// Machine-local data: snapshots, the embedding cache, session backups and the
+// redaction log are large, rebuilt locally or not meant to leave the machine
+const IGNORED = ['*.tmp', '.DS_Store', 'snapshots/', 'embeddings.json', 'backups/', 'redactions.log', '.sync.lock'];
+// Held while a sync runs, so VS Code windows sharing the storage root take turns
+const LOCK_FILE = '.sync.lock';
+// A lock older than this was left behind by a window that exited mid-sync
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// Used only when the machine has no git identity configured
+const FALLBACK_IDENTITY = { name: 'Persistent Context', email: 'persistent-context@localhost' };
+
+export interface SyncOptions {
+  // URL or path of the remote; without one the storage directory is only versioned locally
+  remote?: string;
+  branch: string;
+}
+
+export interface SyncResult {
+  committed: boolean;
+  pulled: boolean;
+  pushed: boolean;
+  // Files whose conflicts were resolved by merging both sides
+  merged: string[];
+}
+
+/**
+ * A `## ` block of an append-only markdown file, with the time it was written.
+ */
+interface Entry {
+  key: string;
+  time: number;
+  text: string;
+}
+
+/**
+ * ContextSync versions the storage directory as a git repository and syncs
+ * it with a remote: commit everything, merge the remote branch, push.
+ * Conflicts in append-only markdown files (activeContext.md, progress.md,
+ * changes.md, …) are resolved by merging their entries by timestamp;
+ * sessions.json is merged by session id and logs by line. Anything else
+ * keeps the local version. Encrypted files are merged decrypted and written
+ * back encrypted.
+ */
+export class ContextSync {
+  private running?: Promise<SyncResult>;
+
+  constructor(private storageRoot: string, private options: SyncOptions, private cipher?: ContextCipher) {}
+
+  setOptions(options: SyncOptions) {
+    this.options = options;
+  }
+
+  setCipher(cipher?: ContextCipher) {
+    this.cipher = cipher;
+  }
+
+  /**
+   * Commit local changes and, with a remote, pull and push. Concurrent calls
+   * share the sync already in progress; a sync running in another window
+   * makes this one fail.
+   */
+  sync(reason: string): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.runLocked(reason).finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async runLocked(reason: string): Promise<SyncResult> {
+    fs.mkdirSync(this.storageRoot, { recursive: true });
+    const lockPath = path.join(this.storageRoot, LOCK_FILE);
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS) fs.rmSync(lockPath, { force: true });
+    } catch {
+      // not locked
+    }
+    try {
+      fs.writeFileSync(lockPath, `${process.pid} ${new Date().toISOString()}\n`, { encoding: 'utf-8', flag: 'wx' });
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new Error('Another window is syncing the context storage, try again shortly');
+      }
+      throw e;
+    }
+    try {
+      return await this.run(reason);
+    } finally {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+
+  private async run(reason: string): Promise<SyncResult> {
+    await this.ensureRepo();
+    const result: SyncResult = { committed: false, pulled: false, pushed: false, merged: [] };
+    result.committed = await this.commit(`Context sync: ${reason} (${new Date().toISOString()})`);
+
+    const remote = this.options.remote?.trim();
+    if (!remote) return result;
+    await this.configureRemote(remote);
+
+    const remoteRef = `${REMOTE_NAME}/${this.options.branch}`;
+    let remoteExists = true;
+    try {
+      await this.git(['fetch', REMOTE_NAME, `+refs/heads/${this.options.branch}:refs/remotes/${remoteRef}`], GIT_TIMEOUT_MS);
+    } catch (e) {
+      // An empty remote has no branch yet; the push below creates it
+      remoteExists = false;
+      console.error(`[persistent-context] Context sync fetch failed, pushing only: ${e}`);
+    }
+
+    if (remoteExists) {
+      const before = await this.head();
+      result.merged = await this.merge(remoteRef);
+      result.pulled = (await this.head()) !== before;
+    }
+
+    if (await this.head()) {
+      await this.git(['push', REMOTE_NAME, `HEAD:refs/heads/${this.options.branch}`], GIT_TIMEOUT_MS);
+      result.pushed = true;
+    }
+    return result;
+  }
+
+  private async ensureRepo() {
+    fs.mkdirSync(this.storageRoot, { recursive: true });
+    if (!fs.existsSync(path.join(this.storageRoot, '.git'))) {
+      await this.git(['init']);
+      await this.git(['symbolic-ref', 'HEAD', `refs/heads/${this.options.branch}`]);
+    }
+    await this.ensureIgnored();
+    try {
+      await this.git(['config', 'user.email']);
+    } catch {
+      await this.git(['config', 'user.name', FALLBACK_IDENTITY.name]);
+      await this.git(['config', 'user.email', FALLBACK_IDENTITY.email]);
+    }
+  }
+
+  /**
+   * Add missing patterns to .gitignore, also in repositories created by an
+   * earlier version, and stop tracking files they match.
+   */
+  private async ensureIgnored() {
+    const ignorePath = path.join(this.storageRoot, '.gitignore');
+    const current = fs.existsSync(ignorePath) ? fs.readFileSync(ignorePath, 'utf-8') : '';
+    const lines = new Set(current.split(/\r?\n/).map((line) => line.trim()));
+    const missing = IGNORED.filter((pattern) => !lines.has(pattern));
+    if (missing.length === 0) return;
+    const separator = current && !current.endsWith('\n') ? '\n' : '';
+    fs.writeFileSync(ignorePath, current + separator + missing.join('\n') + '\n', 'utf-8');
+
+    const tracked = (await this.git(['ls-files', '-z', '--cached', '--ignored', '--exclude-standard']))
+      .split('\0')
+      .filter(Boolean);
+    if (tracked.length > 0) await this.git(['rm', '-q', '--cached', '--', ...tracked]);
+  }
+
+  private async configureRemote(remote: string) {
+    let current: string | undefined;
+    try {
+      current = (await this.git(['remote', 'get-url', REMOTE_NAME])).trim();
+    } catch {
+      current = undefined;
+    }
+    if (current === undefined) {
+      await this.git(['remote', 'add', REMOTE_NAME, remote]);
+    } else if (current !== remote) {
+      await this.git(['remote', 'set-url', REMOTE_NAME, remote]);
+    }
+  }
+
+  /**
+   * Stage and commit everything. Returns false when there was nothing to commit.
+   */
+  private async commit(message: string): Promise<boolean> {
+    await this.git(['add', '-A']);
+    try {
+      await this.git(['diff', '--cached', '--quiet']);
+      return false;
+    } catch {
+      await this.git(['commit', '-q', '-m', message]);
+      return true;
+    }
+  }
+
+  /**
+   * Merge the fetched remote branch, resolving conflicts file by file.
+   * Returns the files that needed resolving.
+   */
+  private async merge(remoteRef: string): Promise<string[]> {
+    try {
+      await this.git(['merge', '--no-edit', '--allow-unrelated-histories', remoteRef]);
+      return [];
+    } catch (mergeError) {
+      const conflicted = (await this.git(['diff', '--name-only', '--diff-filter=U']))
+        .split('\n')
+        .filter(Boolean);
+      if (conflicted.length === 0) {
+        await this.git(['merge', '--abort']).catch(() => undefined);
+        throw mergeError;
+      }
+      for (const file of conflicted) {
+        await this.resolve(file);
+      }
+      await this.git(['commit', '-q', '--no-edit']);
+      return conflicted;
+    }
+  }
+
+  private async resolve(file: string) {
+    const [base, ours, theirs] = await Promise.all([1, 2, 3].map((stage) => this.stage(stage, file)));
+    const fullPath = path.join(this.storageRoot, file);
+
+    if (ours === undefined || theirs === undefined) {
+      // Deleted on one side: keep whichever version still exists
+      const kept = ours ?? theirs;
+      if (kept === undefined) {
+        await this.git(['rm', '-q', '--cached', '--', file]);
+        return;
+      }
+      fs.writeFileSync(fullPath, kept, 'utf-8');
+      await this.git(['add', '--', file]);
+      return;
+    }
+
+    const encrypted = ContextCipher.isEncrypted(ours) || ContextCipher.isEncrypted(theirs);
+    let merged: string;
+    try {
+      merged = ContextSync.mergeFile(
+        file,
+        base === undefined ? undefined : FileService.decode(base, file, this.cipher),
+        FileService.decode(ours, file, this.cipher),
+        FileService.decode(theirs, file, this.cipher)
+      );
+      if (encrypted && this.cipher) merged = this.cipher.encrypt(merged);
+    } catch (e) {
+      console.error(`[persistent-context] Context sync kept the local ${file}:`, e);
+      merged = ours;
+    }
+    fs.writeFileSync(fullPath, merged, 'utf-8');
+    await this.git(['add', '--', file]);
+  }
+
+  /**
+   * Content of a file at a merge stage (1 base, 2 ours, 3 theirs), undefined when absent.
+   */
+  private async stage(stage: number, file: string): Promise<string | undefined> {
+    try {
+      return await this.git(['show', `:${stage}:${file}`]);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async head(): Promise<string | undefined> {
+    try {
+      return (await this.git(['rev-parse', '--verify', '-q', 'HEAD'])).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async git(args: string[], timeout?: number): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: this.storageRoot,
+      encoding: 'utf-8',
+      timeout,
+      maxBuffer: 64 * 1024 * 1024,
+      // Never wait for credentials on a prompt nobody can see
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+    return stdout;
+  }
+
+  /**
+   * Merge two plaintext versions of a file given their common ancestor.
+   */
+  static mergeFile(file: string, base: string | undefined, ours: string, theirs: string): string {
+    const name = path.basename(file);
+    if (name === SESSIONS_FILE) return ContextSync.mergeSessionIndex(base, ours, theirs);
+    if (name.endsWith('.md') && !/promptTemplate\.md$/i.test(name)) return ContextSync.mergeEntries(base, ours, theirs);
+    if (name.endsWith('.log')) return ContextSync.mergeLines(base, ours, theirs);
+    return ours;
+  }
+
+  /**
+   * Three-way merge of `## ` entries: entries added on either side are kept,
+   * entries removed on either side (e.g. compacted into the archive) stay
+   * removed, and the result is ordered by each entry's timestamp. Entries
+   * with an `- ID:` line (sessions) match by id and the local version wins;
+   * the local preamble is kept, with whichever rolling summary was updated last.
+   */
+  static mergeEntries(base: string | undefined, ours: string, theirs: string): string {
+    const baseKeys = new Set(ContextSync.parseEntries(base || '').entries.map((e) => e.key));
+    const local = ContextSync.parseEntries(ours);
+    const remote = ContextSync.parseEntries(theirs);
+    const localKeys = new Set(local.entries.map((e) => e.key));
+    const remoteKeys = new Set(remote.entries.map((e) => e.key));
+
+    const keep = (e: Entry) => !baseKeys.has(e.key) || (localKeys.has(e.key) && remoteKeys.has(e.key));
+    const merged = [
+      ...local.entries.filter(keep),
+      ...remote.entries.filter((e) => !localKeys.has(e.key) && keep(e)),
+    ];
+    // Stable sort: entries from the same side keep their relative order on equal times
+    merged.sort((a, b) => a.time - b.time);
+
+    const body = merged.map((e) => e.text.replace(/\s+$/, '') + '\n').join('\n');
+    return ContextSync.mergeSummary(local.preamble, remote.preamble) + body;
+  }
+
+  /**
+   * The rolling summary is rewritten in place on every update, so it is merged
+   * as one block: the remote copy replaces the local one only when it was
+   * updated later.
+   */
+  private static mergeSummary(ours: string, theirs: string): string {
+    const local = ContextSync.summaryRange(ours);
+    const remote = ContextSync.summaryRange(theirs);
+    if (!local || !remote) return ours;
+    const localBlock = ours.slice(local.start, local.end);
+    const remoteBlock = theirs.slice(remote.start, remote.end);
+    const updatedAt = (block: string) =>
+      ContextCompactor.stampedTime(block)?.getTime() ?? Date.parse((block.match(/^_Last updated: ([^·_]+)/m) || [])[1] || '');
+    const localTime = updatedAt(localBlock);
+    const remoteTime = updatedAt(remoteBlock);
+    if (isNaN(remoteTime) || (!isNaN(localTime) && remoteTime <= localTime)) return ours;
+    return ours.slice(0, local.start) + remoteBlock + ours.slice(local.end);
+  }
+
+  private static summaryRange(content: string): { start: number; end: number } | undefined {
+    const start = content.indexOf(ROLLING_SUMMARY_START);
+    const end = content.indexOf(ROLLING_SUMMARY_END);
+    if (start < 0 || end < start) return undefined;
+    return { start, end: end + ROLLING_SUMMARY_END.length };
+  }
+
+  private static parseEntries(content: string): { preamble: string; entries: Entry[] } {
+    const starts: number[] = [];
+    const heading = /^## .*$/gm;
+    // `## Current Summary` belongs to the rolling summary block, which stays in the preamble
+    const summary = ContextSync.summaryRange(content);
+    let match: RegExpExecArray | null;
+    while ((match = heading.exec(content)) !== null) {
+      if (summary && match.index > summary.start && match.index < summary.end) continue;
+      starts.push(match.index);
+    }
+
+    const preamble = starts.length > 0 ? content.slice(0, starts[0]) : content;
+    let previousTime = 0;
+    const entries = starts.map((start, i) => {
+      const text = content.slice(start, i + 1 < starts.length ? starts[i + 1] : content.length);
+      // Undated entries stay right after the entry before them
+      const time = ContextSync.entryTime(text) ?? previousTime;
+      previousTime = time;
+      const id = text.match(/^- ID: (.+)$/m);
+      return { key: id ? `id:${id[1].trim()}` : text.trim(), time, text };
+    });
+    return { preamble, entries };
+  }
+
+  /**
+   * Timestamp from an entry's timestamp comment or, for entries written before
+   * those existed, its heading (`## Update: <time>`, `## Digest: <date> (…)`)
+   * or a `**Date:**` / `**Time:**` line.
+   */
+  private static entryTime(text: string): number | undefined {
+    const stamped = ContextCompactor.stampedTime(text);
+    if (stamped) return stamped.getTime();
+    const firstLine = text.split('\n')[0];
+    const candidates = [
+      firstLine.includes(':') ? firstLine.slice(firstLine.indexOf(':') + 1) : '',
+      (text.match(/^\*\*(?:Date|Time):\*\*\s*(.+)$/m) || [])[1] || '',
+    ];
+    for (const candidate of candidates) {
+      const cleaned = candidate.replace(/\s*\(.*\)\s*$/, '').trim();
+      if (!cleaned) continue;
+      const time = Date.parse(cleaned);
+      if (!isNaN(time)) return time;
+    }
+    return undefined;
+  }
+
+  /**
+   * Three-way merge of the session index by id; the local version of a session wins.
+   */
+  static mergeSessionIndex(base: string | undefined, ours: string, theirs: string): string {
+    const sessionsOf = (content: string | undefined): Array<{ id: string; startTime?: string }> => {
+      if (!content) return [];
+      return JSON.parse(content).sessions || [];
+    };
+    const index = JSON.parse(ours);
+    const baseIds = new Set(sessionsOf(base).map((s) => s.id));
+    const local = sessionsOf(ours);
+    const remote = sessionsOf(theirs);
+    const localIds = new Set(local.map((s) => s.id));
+    const remoteIds = new Set(remote.map((s) => s.id));
+
+    const keep = (s: { id: string }) => !baseIds.has(s.id) || (localIds.has(s.id) && remoteIds.has(s.id));
+    index.sessions = [...local.filter(keep), ...remote.filter((s) => !localIds.has(s.id) && keep(s))]
+      .sort((a, b) => (Date.parse(a.startTime || '') || 0) - (Date.parse(b.startTime || '') || 0));
+    return JSON.stringify(index, null, 2);
+  }
+
+  /**
+   * Three-way merge of a log by line, remote-only lines appended.
+   */
+  static mergeLines(base: string | undefined, ours: string, theirs: string): string {
+    const baseLines = new Set((base || '').split('\n'));
+    const local = ours.split('\n');
+    const localLines = new Set(local);
+    const remote = theirs.split('\n');
+    const remoteLines = new Set(remote);
+    const keep = (line: string) => !baseLines.has(line) || (localLines.has(line) && remoteLines.has(line));
+    return [...local.filter(keep), ...remote.filter((line) => !localLines.has(line) && keep(line))].join('\n');
+  }
+}
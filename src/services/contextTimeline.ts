@@ -0,0 +1,202 @@
+import { FileService } from './fileService';
+import { GitService } from './gitService';
+import { SessionStore, PROGRESS_FILE } from './sessionStore';
+import { DecisionLog, DECISIONS_FILE } from './decisionLog';
+import { ContextCompactor } from './contextCompactor';
+
+export type TimelineEventKind = 'session' | 'update' | 'digest' | 'note' | 'decision' | 'iteration' | 'commit';
+
+export interface TimelineEvent {
+  kind: TimelineEventKind;
+  time: Date;
+  title: string;
+  detail?: string;
+  // Context file (relative to the context directory) and zero-based line to open
+  file?: string;
+  line?: number;
+  // Commit events open the commit instead of a file
+  commit?: string;
+}
+
+export interface LoopIteration {
+  number: number;
+  time: Date;
+  status?: string;
+  summary?: string;
+  pr?: string;
+  // Zero-based line of the iteration heading in SHARED_TASK_NOTES.md
+  line: number;
+}
+
+export interface LoopRun {
+  startTime: Date;
+  iterations: LoopIteration[];
+}
+
+export const LOOP_NOTES_FILE = 'SHARED_TASK_NOTES.md';
+const MAX_DETAIL_LENGTH = 300;
+
+/**
+ * ContextTimeline collects everything the extension persists - sessions,
+ * activeContext updates and digests, notes, decisions, continuous-loop
+ * iterations - plus recent git commits into one chronological event list.
+ */
+export class ContextTimeline {
+  constructor(
+    private fileService: FileService,
+    private gitService?: GitService,
+    private activeContextFile: string = 'activeContext.md'
+  ) {}
+
+  /**
+   * All events, newest first. Entries whose time cannot be parsed are skipped.
+   */
+  build(commitCount: number = 50): TimelineEvent[] {
+    const events = [
+      ...this.sessionEvents(),
+      ...this.contextEvents(),
+      ...this.decisionEvents(),
+      ...this.iterationEvents(),
+      ...this.commitEvents(commitCount),
+    ];
+    return events.filter((e) => !isNaN(e.time.getTime())).sort((a, b) => b.time.getTime() - a.time.getTime());
+  }
+
+  private sessionEvents(): TimelineEvent[] {
+    const progress = this.fileService.readFile(PROGRESS_FILE);
+    const events: TimelineEvent[] = [];
+    for (const session of new SessionStore(this.fileService).list()) {
+      const line = ContextTimeline.lineOf(progress, `## Session: ${session.name}\n- ID: ${session.id}`);
+      const where = { file: PROGRESS_FILE, line };
+      events.push({
+        kind: 'session',
+        time: session.startTime,
+        title: `Session started: ${session.name}`,
+        detail: [...(session.tags || []).map((t) => `#${t}`), ...(session.branches || [])].join(' ') || undefined,
+        ...where,
+      });
+      if (session.endTime) {
+        events.push({
+          kind: 'session',
+          time: session.endTime,
+          title: `Session ended: ${session.name}`,
+          detail: ContextTimeline.clip(session.retrospective || session.notes),
+          ...where,
+        });
+      }
+      (session.noteEntries || []).forEach((note) =>
+        events.push({ kind: 'note', time: note.timestamp, title: `Note: ${session.name}`, detail: ContextTimeline.clip(note.text), ...where })
+      );
+    }
+    return events;
+  }
+
+  private contextEvents(): TimelineEvent[] {
+    const content = this.fileService.readFile(this.activeContextFile);
+    const { updates, digests } = ContextCompactor.parse(content);
+    return [...updates, ...digests].map((block) => {
+      const heading = block.text.split('\n')[0];
+      const title = heading.replace(/^## /, '');
+      const changes = ContextCompactor.bullets(block.text, block.kind === 'update' ? 'What Changed' : 'Changes');
+      return {
+        kind: block.kind,
+        time: block.kind === 'update'
+          ? ContextCompactor.stampedTime(block.text) || new Date(title.replace(/^Update:\s*/, ''))
+          : ContextTimeline.parseDay(block.date),
+        title,
+        detail: ContextTimeline.clip(changes.join('\n')),
+        file: this.activeContextFile,
+        line: ContextTimeline.lineOf(content, block.text),
+      };
+    });
+  }
+
+  private decisionEvents(): TimelineEvent[] {
+    const content = this.fileService.readFile(DECISIONS_FILE);
+    return new DecisionLog(this.fileService).list().map((d) => ({
+      kind: 'decision' as const,
+      time: ContextTimeline.parseDay(d.date),
+      title: `${DecisionLog.formatId(d.id)}: ${d.title} (${d.status})`,
+      detail: ContextTimeline.clip(d.decision),
+      file: DECISIONS_FILE,
+      line: ContextTimeline.lineOf(content, `## ${DecisionLog.formatId(d.id)}:`),
+    }));
+  }
+
+  private iterationEvents(): TimelineEvent[] {
+    return ContextTimeline.parseIterations(this.fileService.readFile(LOOP_NOTES_FILE)).map((it) => ({
+      kind: 'iteration' as const,
+      time: it.time,
+      title: `Loop Iteration ${it.number}${it.status ? ` ${it.status}` : ''}`,
+      detail: ContextTimeline.clip(it.summary),
+      file: LOOP_NOTES_FILE,
+      line: it.line,
+    }));
+  }
+
+  /**
+   * Continuous-loop runs, oldest first. Iteration numbers restart at 1 for
+   * every run, so a run ends where the numbering drops.
+   */
+  loopRuns(): LoopRun[] {
+    const runs: LoopRun[] = [];
+    for (const iteration of ContextTimeline.parseIterations(this.fileService.readFile(LOOP_NOTES_FILE))) {
+      const run = runs[runs.length - 1];
+      if (run && iteration.number > run.iterations[run.iterations.length - 1].number) {
+        run.iterations.push(iteration);
+      } else {
+        runs.push({ startTime: iteration.time, iterations: [iteration] });
+      }
+    }
+    return runs;
+  }
+
+  static parseIterations(content: string): LoopIteration[] {
+    const iterations: LoopIteration[] = [];
+    const pattern = /^## Iteration (\d+)\n\*\*Time:\*\* (.+)$/gm;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+      const block = content.slice(match.index).split(/\n## /)[0];
+      const field = (name: string) => (block.match(new RegExp(`^\\*\\*${name}:\\*\\* (.+)$`, 'm')) || [])[1];
+      iterations.push({
+        number: parseInt(match[1], 10),
+        time: new Date(match[2].trim()),
+        status: field('Status'),
+        summary: field('Summary'),
+        pr: field('PR'),
+        line: content.slice(0, match.index).split('\n').length - 1,
+      });
+    }
+    return iterations;
+  }
+
+  private commitEvents(count: number): TimelineEvent[] {
+    if (!this.gitService || count <= 0) return [];
+    return this.gitService.getCommitHistory(count).map((c) => ({
+      kind: 'commit' as const,
+      time: c.date,
+      title: `${c.hash} ${c.subject}`,
+      detail: c.author,
+      commit: c.hash,
+    }));
+  }
+
+  private static lineOf(content: string, needle: string): number | undefined {
+    const index = content.indexOf(needle);
+    return index < 0 ? undefined : content.slice(0, index).split('\n').length - 1;
+  }
+
+  /**
+   * YYYY-MM-DD as local noon, so day-only entries sort within their day.
+   */
+  private static parseDay(day: string): Date {
+    const match = day.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return match ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10), 12) : new Date(NaN);
+  }
+
+  private static clip(text?: string): string | undefined {
+    if (!text || !text.trim()) return undefined;
+    const trimmed = text.trim();
+    return trimmed.length > MAX_DETAIL_LENGTH ? `${trimmed.substring(0, MAX_DETAIL_LENGTH)}…` : trimmed;
+  }
+}
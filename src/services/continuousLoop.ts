@@ -1,7 +1,3 @@
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
-import * as crypto from 'crypto';
 import { execSync } from 'child_process';
 import * as vscode from 'vscode';
 import { AIService } from './aiService';
@@ -9,6 +5,8 @@ import { ContextSnapshotCollector, ContextSnapshot } from './snapshotCollector';
 import { GitService } from './gitService';
 import { FileService } from './fileService';
 import { PRManager } from './prManager';
+import { LOOP_NOTES_FILE } from './contextTimeline';
+import { ContextCompactor } from './contextCompactor';
 
 export interface LoopConfig {
   maxIterations?: number;
@@ -37,7 +35,6 @@ export class ContinuousLoop {
   private config: Required<LoopConfig>;
   private consecutiveCompletionSignals: number = 0;
   private outputChannel: vscode.OutputChannel;
-  private storageDir: string;
 
   constructor(
     private workspaceRoot: string,
@@ -59,16 +56,6 @@ export class ContinuousLoop {
     };
 
     this.outputChannel = vscode.window.createOutputChannel('Continuous Loop');
-
-    const cfg = vscode.workspace.getConfiguration('persistentContext');
-    const storageSetting = cfg.get<string>('storageDirectory');
-    const commonDir = (storageSetting && storageSetting.trim())
-      ? storageSetting
-      : path.join(os.homedir(), '.vscode-persistent-context');
-
-    const workspaceHash = crypto.createHash('md5').update(workspaceRoot).digest('hex').substring(0, 8);
-    const workspaceName = path.basename(workspaceRoot);
-    this.storageDir = path.join(commonDir, `${workspaceName}-${workspaceHash}`);
   }
 
   /**
@@ -297,12 +284,8 @@ ${basePrompt}
    * Loads previous iteration notes
    */
   private loadPreviousIterationNotes(): string {
-    const notesFile = path.join(this.storageDir, 'SHARED_TASK_NOTES.md');
-    if (fs.existsSync(notesFile)) {
-      const content = fs.readFileSync(notesFile, 'utf-8');
-      return content.substring(Math.max(0, content.length - 1000));
-    }
-    return '';
+    const content = this.fileService.readFile(LOOP_NOTES_FILE);
+    return content.substring(Math.max(0, content.length - 1000));
   }
 
   /**
@@ -311,6 +294,7 @@ ${basePrompt}
   private async saveIterationNotes(result: IterationResult): Promise<void> {
     const notes = `## Iteration ${this.iterations}
 **Time:** ${new Date().toLocaleString()}
+${ContextCompactor.timestampComment()}
 **Status:** ${result.success ? '✅' : '❌'}
 **PR:** #${result.prNumber || 'N/A'}
 **Summary:** ${result.summary.split('\n')[0]}
@@ -318,11 +302,11 @@ ${basePrompt}
 
 `;
 
-    const notesFile = path.join(this.storageDir, 'SHARED_TASK_NOTES.md');
-    if (fs.existsSync(notesFile)) {
-      fs.appendFileSync(notesFile, notes);
+    // Through FileService so the notes are encrypted along with the other context files
+    if (this.fileService.fileExists(LOOP_NOTES_FILE)) {
+      this.fileService.appendFile(LOOP_NOTES_FILE, notes);
     } else {
-      fs.writeFileSync(notesFile, `# Continuous Loop Notes\n\n${notes}`);
+      this.fileService.writeFile(LOOP_NOTES_FILE, `# Continuous Loop Notes\n\n${notes}`);
     }
   }
 
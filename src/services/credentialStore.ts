@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+
+export type CredentialId = 'openaiApiKey' | 'githubToken';
+
+export const CREDENTIAL_LABELS: Record<CredentialId, string> = {
+  openaiApiKey: 'OpenAI API key',
+  githubToken: 'GitHub token',
+};
+
+const SECRET_PREFIX = 'persistentContext.';
+
+/**
+ * CredentialStore keeps AI provider credentials in VS Code's SecretStorage
+ * instead of settings.json. The old `persistentContext.*` settings are only
+ * read as a fallback until migrateSettings moves them over.
+ */
+export class CredentialStore {
+  constructor(private secrets?: vscode.SecretStorage) {}
+
+  async get(id: CredentialId): Promise<string | undefined> {
+    const secret = await this.secrets?.get(SECRET_PREFIX + id);
+    if (secret) return secret;
+    return vscode.workspace.getConfiguration('persistentContext').get<string>(id) || undefined;
+  }
+
+  async isStored(id: CredentialId): Promise<boolean> {
+    return !!(await this.secrets?.get(SECRET_PREFIX + id));
+  }
+
+  async set(id: CredentialId, value: string) {
+    if (!this.secrets) throw new Error('Secret storage is not available');
+    await this.secrets.store(SECRET_PREFIX + id, value);
+  }
+
+  async clear(id: CredentialId) {
+    await this.secrets?.delete(SECRET_PREFIX + id);
+  }
+
+  /**
+   * Move credentials found in user, workspace or folder settings into secret
+   * storage and remove them from every settings scope. The most specific
+   * value wins. When a different credential is already stored,
+   * `resolveConflict` decides which one to keep; without an answer nothing
+   * changes for that credential. Returns the credentials moved from settings.
+   */
+  async migrateSettings(
+    resolveConflict: (id: CredentialId) => Thenable<'settings' | 'stored' | undefined> = () => Promise.resolve(undefined)
+  ): Promise<CredentialId[]> {
+    if (!this.secrets) return [];
+    const cfg = vscode.workspace.getConfiguration('persistentContext');
+    const folders = vscode.workspace.workspaceFolders || [];
+    const moved: CredentialId[] = [];
+
+    for (const id of Object.keys(CREDENTIAL_LABELS) as CredentialId[]) {
+      const inspected = cfg.inspect<string>(id);
+      const scopes = [
+        ...folders.map((folder) => {
+          const folderCfg = vscode.workspace.getConfiguration('persistentContext', folder.uri);
+          return {
+            value: folderCfg.inspect<string>(id)?.workspaceFolderValue,
+            clear: () => folderCfg.update(id, undefined, vscode.ConfigurationTarget.WorkspaceFolder),
+          };
+        }),
+        { value: inspected?.workspaceValue, clear: () => cfg.update(id, undefined, vscode.ConfigurationTarget.Workspace) },
+        { value: inspected?.globalValue, clear: () => cfg.update(id, undefined, vscode.ConfigurationTarget.Global) },
+      ].filter((scope) => scope.value !== undefined);
+      const value = scopes.map((scope) => scope.value).find(Boolean);
+      if (!value) continue;
+
+      const stored = await this.secrets.get(SECRET_PREFIX + id);
+      const keep = stored && stored !== value ? await resolveConflict(id) : 'settings';
+      if (!keep) continue;
+      if (keep === 'settings') {
+        await this.secrets.store(SECRET_PREFIX + id, value);
+        moved.push(id);
+      }
+      for (const scope of scopes) await scope.clear();
+    }
+    return moved;
+  }
+}
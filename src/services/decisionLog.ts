@@ -0,0 +1,173 @@
+import { Decision, DecisionStatus } from '../utils/types';
+import { FileService } from './fileService';
+
+export const DECISIONS_FILE = 'decisions.md';
+// Written by earlier versions of viewDecisions; adopted as decisions.md on first use
+const LEGACY_DECISIONS_FILE = 'decisionLog.md';
+
+const DECISION_HEADER = `# Decision Log
+
+Architecture decision records for this project. Entries are managed by the
+"Add Decision" command; edit the text freely but keep the headings.
+`;
+
+const DECISION_HEADING = /^## ADR-(\d+):\s*(.*)$/gm;
+const STATUSES: DecisionStatus[] = ['proposed', 'accepted', 'rejected', 'deprecated', 'superseded'];
+
+export interface NewDecision {
+  title: string;
+  context: string;
+  decision: string;
+  consequences: string;
+  status?: DecisionStatus;
+  supersedes?: number[];
+}
+
+/**
+ * DecisionLog stores ADR-style decision records in decisions.md and parses
+ * them back into typed Decision objects. Any free text above the first record
+ * is kept as a preamble.
+ */
+export class DecisionLog {
+  constructor(private fileService: FileService) {}
+
+  static formatId(id: number): string {
+    return `ADR-${String(id).padStart(4, '0')}`;
+  }
+
+  list(): Decision[] {
+    return DecisionLog.parse(this.read()).decisions;
+  }
+
+  get(id: number): Decision | undefined {
+    return this.list().find((d) => d.id === id);
+  }
+
+  /**
+   * Decisions still in force: accepted or proposed, and not superseded.
+   */
+  active(): Decision[] {
+    return this.list().filter((d) => (d.status === 'accepted' || d.status === 'proposed') && !d.supersededBy);
+  }
+
+  /**
+   * Append a new record. Decisions it supersedes are marked superseded and linked back.
+   */
+  add(input: NewDecision): Decision {
+    const { preamble, decisions } = DecisionLog.parse(this.read());
+    const decision: Decision = {
+      id: decisions.reduce((max, d) => Math.max(max, d.id), 0) + 1,
+      title: input.title.trim(),
+      date: new Date().toISOString().split('T')[0],
+      status: input.status || 'accepted',
+      context: input.context.trim(),
+      decision: input.decision.trim(),
+      consequences: input.consequences.trim(),
+      supersedes: input.supersedes && input.supersedes.length > 0 ? input.supersedes : undefined,
+    };
+
+    for (const old of decisions) {
+      if (decision.supersedes?.includes(old.id)) {
+        old.status = 'superseded';
+        old.supersededBy = decision.id;
+      }
+    }
+
+    this.write(preamble, [...decisions, decision]);
+    return decision;
+  }
+
+  /**
+   * Make sure decisions.md exists, adopting a legacy decisionLog.md if present.
+   */
+  ensureFile() {
+    if (!this.fileService.fileExists(DECISIONS_FILE)) {
+      this.fileService.writeFile(DECISIONS_FILE, this.read());
+    }
+  }
+
+  /**
+   * Compact markdown list of active decisions for briefings and AI prompts.
+   */
+  formatActive(): string {
+    const active = this.active();
+    if (active.length === 0) return '- None recorded';
+    return active
+      .map((d) => `- ${DecisionLog.formatId(d.id)} ${d.title} (${d.status}, ${d.date}): ${d.decision.split('\n')[0]}`)
+      .join('\n');
+  }
+
+  private read(): string {
+    if (this.fileService.fileExists(DECISIONS_FILE)) {
+      return this.fileService.readFile(DECISIONS_FILE);
+    }
+    const legacy = this.fileService.readFile(LEGACY_DECISIONS_FILE);
+    return legacy ? `${DECISION_HEADER}\n${legacy.replace(/^# Decision Log\s*/, '')}` : DECISION_HEADER;
+  }
+
+  private write(preamble: string, decisions: Decision[]) {
+    const body = decisions.map((d) => DecisionLog.render(d)).join('\n');
+    this.fileService.writeFile(DECISIONS_FILE, `${preamble.trimEnd()}\n\n${body}`);
+  }
+
+  static render(d: Decision): string {
+    const meta = [
+      `- **Status:** ${d.status.charAt(0).toUpperCase()}${d.status.slice(1)}`,
+      `- **Date:** ${d.date}`,
+      d.supersedes && d.supersedes.length > 0 ? `- **Supersedes:** ${d.supersedes.map(DecisionLog.formatId).join(', ')}` : '',
+      d.supersededBy ? `- **Superseded by:** ${DecisionLog.formatId(d.supersededBy)}` : '',
+    ].filter((line) => line.length > 0);
+
+    return `## ${DecisionLog.formatId(d.id)}: ${d.title}
+
+${meta.join('\n')}
+
+### Context
+${d.context || '_Not recorded_'}
+
+### Decision
+${d.decision || '_Not recorded_'}
+
+### Consequences
+${d.consequences || '_Not recorded_'}
+`;
+  }
+
+  static parse(content: string): { preamble: string; decisions: Decision[] } {
+    const headings: Array<{ index: number; id: number; title: string }> = [];
+    let match: RegExpExecArray | null;
+    DECISION_HEADING.lastIndex = 0;
+    while ((match = DECISION_HEADING.exec(content)) !== null) {
+      headings.push({ index: match.index, id: parseInt(match[1], 10), title: match[2].trim() });
+    }
+
+    const preamble = headings.length > 0 ? content.slice(0, headings[0].index) : content;
+    const decisions = headings.map((h, i) => {
+      const text = content.slice(h.index, i + 1 < headings.length ? headings[i + 1].index : content.length);
+      const meta = (name: string) => (text.match(new RegExp(`^- \\*\\*${name}:\\*\\*\\s*(.+)$`, 'mi')) || [])[1]?.trim();
+      const section = (name: string) => {
+        const body = (text.match(new RegExp(`^### ${name}\\n([\\s\\S]*?)(?=^### |$(?![\\s\\S]))`, 'm')) || [])[1] || '';
+        const trimmed = body.trim();
+        return trimmed === '_Not recorded_' ? '' : trimmed;
+      };
+      const ids = (value?: string) => (value ? (value.match(/ADR-(\d+)/g) || []).map((v) => parseInt(v.slice(4), 10)) : []);
+
+      const status = (meta('Status') || 'accepted').toLowerCase() as DecisionStatus;
+      const supersedes = ids(meta('Supersedes'));
+      const decision: Decision = {
+        id: h.id,
+        title: h.title,
+        date: meta('Date') || '',
+        status: STATUSES.includes(status) ? status : 'accepted',
+        context: section('Context'),
+        decision: section('Decision'),
+        consequences: section('Consequences'),
+        supersedes: supersedes.length > 0 ? supersedes : undefined,
+        supersededBy: ids(meta('Superseded by'))[0],
+      };
+      return decision;
+    });
+
+    return { preamble, decisions };
+  }
+}
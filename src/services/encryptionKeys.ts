@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ContextCipher, EncryptionInfo, EncryptionKeySource } from './contextCipher';
+
+const SECRET_KEY_NAME = 'persistentContext.encryptionKey';
+const PASSPHRASE_ATTEMPTS = 3;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * EncryptionKeys holds the key for encrypted context storage: a random key in
+ * VS Code's SecretStorage, or one derived from a passphrase that is asked for
+ * once per window and never stored.
+ */
+export class EncryptionKeys {
+  constructor(private secrets: vscode.SecretStorage) {}
+
+  /**
+   * Cipher for an encrypted storage directory. Returns undefined when the
+   * passphrase prompt is cancelled; throws when the key is missing or wrong.
+   */
+  async unlock(info: EncryptionInfo): Promise<ContextCipher | undefined> {
+    if (info.keySource === 'passphrase') {
+      const salt = Buffer.from(info.salt || '', 'base64');
+      for (let attempt = 1; attempt <= PASSPHRASE_ATTEMPTS; attempt++) {
+        const passphrase = await vscode.window.showInputBox({
+          prompt: attempt === 1
+            ? 'Passphrase for the encrypted context storage'
+            : 'Wrong passphrase, try again',
+          password: true,
+          ignoreFocusOut: true,
+        });
+        if (passphrase === undefined) return undefined;
+        const cipher = ContextCipher.fromPassphrase(passphrase, salt);
+        if (cipher.matches(info)) return cipher;
+      }
+      throw new Error('Wrong passphrase for the encrypted context storage');
+    }
+
+    const stored = await this.secrets.get(SECRET_KEY_NAME);
+    if (!stored) {
+      throw new Error('The context storage is encrypted but its key is not in this machine\'s secret storage');
+    }
+    const cipher = new ContextCipher(Buffer.from(stored, 'base64'));
+    if (!cipher.matches(info)) {
+      throw new Error('The key in secret storage does not match the encrypted context storage');
+    }
+    return cipher;
+  }
+
+  /**
+   * New key for encrypting the storage directory, with the info to store
+   * next to it. Returns undefined when the passphrase prompt is cancelled.
+   */
+  async create(keySource: EncryptionKeySource): Promise<{ cipher: ContextCipher; info: EncryptionInfo } | undefined> {
+    if (keySource === 'passphrase') {
+      const passphrase = await vscode.window.showInputBox({
+        prompt: 'Choose a passphrase for the context storage. It cannot be recovered if lost.',
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: (value) => value.length < MIN_PASSPHRASE_LENGTH
+          ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+          : undefined,
+      });
+      if (passphrase === undefined) return undefined;
+      const confirmation = await vscode.window.showInputBox({
+        prompt: 'Repeat the passphrase',
+        password: true,
+        ignoreFocusOut: true,
+      });
+      if (confirmation === undefined) return undefined;
+      if (confirmation !== passphrase) throw new Error('Passphrases do not match');
+      const salt = crypto.randomBytes(16);
+      const cipher = ContextCipher.fromPassphrase(passphrase, salt);
+      return { cipher, info: cipher.createInfo('passphrase', salt) };
+    }
+
+    const key = ContextCipher.generateKey();
+    await this.secrets.store(SECRET_KEY_NAME, key.toString('base64'));
+    const cipher = new ContextCipher(key);
+    return { cipher, info: cipher.createInfo('secretStorage') };
+  }
+
+  /**
+   * Forget the stored key once the storage directory is decrypted.
+   */
+  async clear() {
+    await this.secrets.delete(SECRET_KEY_NAME);
+  }
+}
@@ -1,8 +1,20 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { ContextCipher } from './contextCipher';
 
 export class FileService {
-  constructor(private contextDir: string) {}
+  constructor(private contextDir: string, private cipher?: ContextCipher) {}
+
+  /**
+   * Encrypt files written from now on; encrypted files are only readable with a cipher.
+   */
+  setCipher(cipher?: ContextCipher) {
+    this.cipher = cipher;
+  }
+
+  getCipher(): ContextCipher | undefined {
+    return this.cipher;
+  }
 
   ensureDir() {
     if (!fs.existsSync(this.contextDir)) {
@@ -13,22 +25,48 @@ export class FileService {
   writeFile(filename: string, content: string) {
     this.ensureDir();
     const filepath = path.join(this.contextDir, filename);
-    fs.writeFileSync(filepath, content, 'utf-8');
+    // Allow nested paths such as archive/activeContext-2024-01.md
+    fs.mkdirSync(path.dirname(filepath), { recursive: true });
+    const data = this.cipher && !ContextCipher.isExcluded(filename) ? this.cipher.encrypt(content) : content;
+    fs.writeFileSync(filepath, data, 'utf-8');
   }
 
   readFile(filename: string): string {
     const filepath = path.join(this.contextDir, filename);
     if (!fs.existsSync(filepath)) return '';
-    return fs.readFileSync(filepath, 'utf-8');
+    return FileService.decode(fs.readFileSync(filepath, 'utf-8'), filename, this.cipher);
   }
 
   fileExists(filename: string): boolean {
     return fs.existsSync(path.join(this.contextDir, filename));
   }
 
+  /**
+   * Names of the files in a subdirectory, sorted; empty if it does not exist.
+   */
+  listFiles(dirname: string): string[] {
+    const dirpath = path.join(this.contextDir, dirname);
+    if (!fs.existsSync(dirpath)) return [];
+    return fs.readdirSync(dirpath).filter((name) => fs.statSync(path.join(dirpath, name)).isFile()).sort();
+  }
+
+  deleteFile(filename: string) {
+    fs.rmSync(path.join(this.contextDir, filename), { force: true });
+  }
+
   appendFile(filename: string, content: string) {
     const filepath = path.join(this.contextDir, filename);
     const existing = this.fileExists(filename) ? this.readFile(filename) : '';
     this.writeFile(filename, existing + '\n' + content);
   }
+
+  /**
+   * Plaintext of file content that may be encrypted. Throws rather than
+   * returning nothing, so callers never overwrite an encrypted file by accident.
+   */
+  static decode(content: string, filename: string, cipher?: ContextCipher): string {
+    if (!ContextCipher.isEncrypted(content)) return content;
+    if (!cipher) throw new Error(`${filename} is encrypted and the context encryption key is not unlocked`);
+    return cipher.decrypt(content);
+  }
 }
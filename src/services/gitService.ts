@@ -1,4 +1,8 @@
 import { execSync } from 'child_process';
+import * as path from 'path';
+
+// Standards and encodings written like tracker keys (UTF-8, SHA-256, ISO-8601)
+const NON_ISSUE_KEYS = new Set(['UTF', 'UCS', 'SHA', 'MD', 'ISO', 'IEC', 'RFC', 'CVE', 'ECMA', 'TLS', 'HTTP']);
 
 export class GitService {
   constructor(private workspaceRoot: string) {}
@@ -15,6 +19,21 @@ export class GitService {
     }
   }
 
+  /**
+   * Absolute path of a file inside the git directory (handles worktrees), or undefined outside a repo.
+   */
+  getGitPath(name: string): string | undefined {
+    try {
+      const gitPath = execSync(`git rev-parse --git-path ${name}`, {
+        cwd: this.workspaceRoot,
+        encoding: 'utf-8',
+      }).trim();
+      return path.resolve(this.workspaceRoot, gitPath);
+    } catch {
+      return undefined;
+    }
+  }
+
   getRecentCommits(count: number = 5): string[] {
     try {
       const log = execSync(`git log --oneline -${count}`, {
@@ -39,6 +58,95 @@ export class GitService {
     }
   }
 
+  /**
+   * Subjects of commits made since `since`, newest first.
+   */
+  getCommitMessagesSince(since: Date): string[] {
+    try {
+      const log = execSync(`git log --since="${since.toISOString()}" --format=%s`, {
+        cwd: this.workspaceRoot,
+        encoding: 'utf-8',
+      }).trim();
+      return log.split('\n').filter(line => line.length > 0);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * One-line summaries (`<hash> <subject>`) of commits made between two dates, newest first.
+   */
+  getCommitsBetween(since: Date, until: Date = new Date()): string[] {
+    try {
+      const log = execSync(`git log --since="${since.toISOString()}" --until="${until.toISOString()}" --format="%h %s"`, {
+        cwd: this.workspaceRoot,
+        encoding: 'utf-8',
+      }).trim();
+      return log.split('\n').filter(line => line.length > 0);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Recent commits with author dates, newest first.
+   */
+  getCommitHistory(count: number = 50): Array<{ hash: string; date: Date; author: string; subject: string }> {
+    try {
+      const log = execSync(`git log -n ${count} --format=%h%x09%aI%x09%an%x09%s`, {
+        cwd: this.workspaceRoot,
+        encoding: 'utf-8',
+      }).trim();
+      return log.split('\n').filter(line => line.length > 0).map(line => {
+        const [hash, date, author, ...subject] = line.split('\t');
+        return { hash, date: new Date(date), author, subject: subject.join('\t') };
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * `git show --stat` output for a commit, or an empty string when it cannot be read.
+   */
+  showCommit(hash: string): string {
+    if (!/^[0-9a-f]{4,40}$/i.test(hash)) return '';
+    try {
+      return execSync(`git show --stat ${hash}`, {
+        cwd: this.workspaceRoot,
+        encoding: 'utf-8',
+      });
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Issue/ticket references in a commit message or branch name: tracker keys
+   * such as PROJ-123 and GitHub-style #123. Branch names may also use a
+   * lower-case key (feature/proj-123-login) or a bare number (fix/123-crash).
+   * Keys are letters only, and names of standards such as UTF-8 are skipped.
+   */
+  static extractIssueIds(text: string, isBranch: boolean = false): string[] {
+    const ids = new Set<string>();
+    const addKey = (id: string) => {
+      if (!NON_ISSUE_KEYS.has(id.slice(0, id.indexOf('-')))) ids.add(id);
+    };
+    (text.match(/\b[A-Z]{2,}-\d+\b/g) || []).forEach(addKey);
+    for (const match of text.matchAll(/(?:^|[\s(\[])#(\d+)\b/g)) {
+      ids.add(`#${match[1]}`);
+    }
+    if (isBranch) {
+      for (const match of text.matchAll(/(?:^|\/)([a-z]{2,}-\d+)(?=[-_/]|$)/gi)) {
+        addKey(match[1].toUpperCase());
+      }
+      for (const match of text.matchAll(/(?:^|\/)(\d+)(?=[-_/]|$)/g)) {
+        ids.add(`#${match[1]}`);
+      }
+    }
+    return [...ids];
+  }
+
   getStagedFiles(): string[] {
     try {
       const staged = execSync('git diff --cached --name-only', {
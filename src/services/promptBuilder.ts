@@ -0,0 +1,242 @@
+import { ContextSnapshot } from './snapshotCollector';
+import { DecisionLog } from './decisionLog';
+import { ActivityTracker } from './activityTracker';
+import { FileService } from './fileService';
+import { RetrospectiveInput } from './sessionRetrospective';
+
+export const PROMPT_TEMPLATE_FILE = 'promptTemplate.md';
+export const UPDATE_PROMPT_TEMPLATE_FILE = 'updatePromptTemplate.md';
+export const DIGEST_PROMPT_TEMPLATE_FILE = 'digestPromptTemplate.md';
+export const RETROSPECTIVE_PROMPT_TEMPLATE_FILE = 'retrospectivePromptTemplate.md';
+
+export const DEFAULT_PROMPT_TEMPLATE = `You are a technical AI assistant. Analyze this workspace snapshot and provide a concise summary that will help you or another AI quickly understand the project context.
+
+## Workspace Metadata
+- Name: {{workspace.name}}
+- Language: {{workspace.language}}
+- Node Version: {{workspace.nodeVersion}}
+
+## Project Structure
+Directories: {{structure.directories}}
+Key Files: {{structure.keyFiles}}
+
+## Git Status
+- Branch: {{git.branch}}
+- Recent Commits:
+{{git.recentCommits}}
+- Modified Files: {{git.modifiedFiles}}
+- Staged Files: {{git.stagedFiles}}
+
+## Open Editors
+{{openEditors}}
+
+## Deployment Context (if mentioned)
+{{deploymentContext}}
+
+## Required Extensions
+{{requiredExtensions}}
+
+## Active Decisions
+{{decisions}}
+
+## Task
+Provide a comprehensive summary covering:
+1. What is this project building?
+2. What is the tech stack?
+3. What is the project structure and architecture?
+4. What is currently being worked on?
+5. What changed recently?
+6. What is the deployment environment (if any)?
+7. Any important context for continuing development?
+
+Keep the summary concise but complete.`;
+
+export const DEFAULT_UPDATE_PROMPT_TEMPLATE = `You are a technical AI assistant maintaining a rolling summary of a software project. Below is the summary you wrote previously and what has changed in the workspace since then.
+
+## Previous Summary
+{{previousSummary}}
+
+## Changes Since Previous Summary
+{{changes}}
+
+## Current State
+- Branch: {{git.branch}}
+- Modified Files: {{git.modifiedFiles}}
+- Open Editors:
+{{openEditors}}
+
+## Deployment Context (if mentioned)
+{{deploymentContext}}
+
+## Active Decisions
+{{decisions}}
+
+## Task
+Rewrite the summary so it reflects the current state of the project. Keep everything from the previous summary that is still accurate, fold in the changes, and drop details that no longer apply. Return only the updated summary, concise but complete.`;
+
+export const DEFAULT_DIGEST_PROMPT_TEMPLATE = `You are a technical AI assistant condensing a development work log. Summarize the activity recorded on {{date}} in one short paragraph: what was worked on, what changed and anything left unfinished.
+
+## Existing Digest (if any)
+{{previousSummary}}
+
+## Recorded Activity
+{{activity}}
+
+Return only the summary paragraph.`;
+
+export const DEFAULT_RETROSPECTIVE_PROMPT_TEMPLATE = `You are a technical AI assistant writing a short retrospective for a development session that just ended.
+
+## Session
+- Name: {{session.name}}
+- Duration: {{session.duration}} ({{session.activeTime}} active)
+- Branches: {{session.branches}}
+
+## Workspace Changes During The Session
+{{changes}}
+
+## Commits During The Session
+{{commits}}
+
+## Notes
+{{notes}}
+
+## Recent Chat Instructions
+{{chat}}
+
+## Still Uncommitted
+{{pendingFiles}}
+
+Write three markdown sections titled "#### Done", "#### Left To Do" and "#### Open Questions", each a short bullet list grounded in the material above. Return only those sections.`;
+
+/**
+ * PromptBuilder renders a ContextSnapshot into an LLM prompt.
+ * Templates can be overridden per workspace by placing promptTemplate.md
+ * (full summaries), updatePromptTemplate.md (rolling updates) or
+ * digestPromptTemplate.md (compaction digests) or retrospectivePromptTemplate.md
+ * (end-of-session retrospectives) in the context directory;
+ * placeholders use the {{name}} syntax.
+ */
+export class PromptBuilder {
+  /**
+   * @param fileService The context directory's file service, so templates and
+   * decisions are read with the current encryption key
+   */
+  constructor(private fileService?: FileService) {}
+
+  /**
+   * Return the workspace template if one exists, otherwise the built-in default.
+   */
+  getTemplate(fileName = PROMPT_TEMPLATE_FILE, fallback = DEFAULT_PROMPT_TEMPLATE): string {
+    if (this.fileService) {
+      try {
+        const custom = this.fileService.readFile(fileName);
+        if (custom.trim()) return custom;
+      } catch (e) {
+        console.error('[persistent-context] Failed to read prompt template:', e);
+      }
+    }
+    return fallback;
+  }
+
+  build(snapshot: ContextSnapshot): string {
+    return PromptBuilder.render(this.getTemplate(), {
+      ...PromptBuilder.placeholders(snapshot),
+      decisions: this.activeDecisions(),
+    });
+  }
+
+  /**
+   * Build a prompt asking the model to revise its previous summary given a list of changes.
+   */
+  buildUpdate(snapshot: ContextSnapshot, previousSummary: string, changes: string[]): string {
+    return PromptBuilder.render(this.getTemplate(UPDATE_PROMPT_TEMPLATE_FILE, DEFAULT_UPDATE_PROMPT_TEMPLATE), {
+      ...PromptBuilder.placeholders(snapshot),
+      decisions: this.activeDecisions(),
+      previousSummary,
+      changes: changes.length > 0 ? changes.join('\n') : '- No workspace changes',
+    });
+  }
+
+  /**
+   * Build a prompt asking the model to condense one day of activeContext updates.
+   */
+  buildDigest(date: string, activity: string[], previousSummary?: string): string {
+    return PromptBuilder.render(this.getTemplate(DIGEST_PROMPT_TEMPLATE_FILE, DEFAULT_DIGEST_PROMPT_TEMPLATE), {
+      date,
+      activity: activity.length > 0 ? activity.join('\n') : '- No recorded activity',
+      previousSummary: previousSummary || '_None_',
+    });
+  }
+
+  /**
+   * Build a prompt asking the model for an end-of-session retrospective.
+   */
+  buildRetrospective(input: RetrospectiveInput): string {
+    const list = (items: string[], empty: string) => (items.length > 0 ? items.join('\n') : empty);
+    const { session } = input;
+    return PromptBuilder.render(this.getTemplate(RETROSPECTIVE_PROMPT_TEMPLATE_FILE, DEFAULT_RETROSPECTIVE_PROMPT_TEMPLATE), {
+      'session.name': session.name,
+      'session.duration': ActivityTracker.formatDuration((session.endTime || new Date()).getTime() - session.startTime.getTime()),
+      'session.activeTime': ActivityTracker.formatDuration(session.activeMs || 0),
+      'session.branches': (session.branches || []).join(', ') || 'unknown',
+      changes: list(input.changes, '- No workspace changes recorded'),
+      commits: list(input.commits.map((c) => `- ${c}`), '- No commits'),
+      notes: list(input.notes.map((n) => `- ${n}`), '- No notes'),
+      chat: list(input.chat, '_No chat instructions captured_'),
+      pendingFiles: list(input.pendingFiles.map((f) => `- ${f}`), '- Nothing'),
+    });
+  }
+
+  private activeDecisions(): string {
+    if (!this.fileService) return '- None recorded';
+    try {
+      return new DecisionLog(this.fileService).formatActive();
+    } catch (e) {
+      console.error('[persistent-context] Failed to read decisions for prompt:', e);
+      return '- None recorded';
+    }
+  }
+
+  /**
+   * Replace {{name}} placeholders with values. Unknown placeholders are left
+   * untouched so typos in custom templates remain visible in the output.
+   */
+  static render(template: string, values: Record<string, string>): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) =>
+      Object.prototype.hasOwnProperty.call(values, key) ? values[key] : match
+    );
+  }
+
+  static placeholders(snapshot: ContextSnapshot): Record<string, string> {
+    const list = (items: string[], empty = 'None') => (items.length > 0 ? items.join(', ') : empty);
+    const deployment = snapshot.deploymentContext;
+    const deploymentLines = [
+      deployment.location ? `- Location: ${deployment.location}` : '',
+      deployment.accessMethod ? `- Access: ${deployment.accessMethod}` : '',
+      deployment.deploymentMethod ? `- Method: ${deployment.deploymentMethod}` : '',
+      deployment.currentWorkMode ? `- Work Mode: ${deployment.currentWorkMode}` : '',
+      deployment.isProduction !== undefined ? `- Environment: ${deployment.isProduction ? 'Production' : 'Development'}` : '',
+    ].filter((line) => line.length > 0);
+
+    return {
+      timestamp: snapshot.timestamp,
+      'workspace.name': snapshot.workspaceMetadata.name,
+      'workspace.root': snapshot.workspaceMetadata.rootPath,
+      'workspace.language': snapshot.workspaceMetadata.mainLanguage,
+      'workspace.nodeVersion': snapshot.workspaceMetadata.nodeVersion || 'N/A',
+      'structure.directories': list(snapshot.projectStructure.directories),
+      'structure.keyFiles': list(snapshot.projectStructure.keyFiles),
+      'git.branch': snapshot.git.branch,
+      'git.recentCommits': snapshot.git.recentCommits.length > 0
+        ? snapshot.git.recentCommits.map((c) => `  - ${c.hash}: ${c.message}`).join('\n')
+        : '  - None',
+      'git.modifiedFiles': list(snapshot.git.modifiedFiles),
+      'git.stagedFiles': list(snapshot.git.stagedFiles),
+      openEditors: snapshot.openEditors.length > 0
+        ? snapshot.openEditors.map((e) => `- ${e.path} (${e.language}, ${e.lines} lines)`).join('\n')
+        : '- None',
+      deploymentContext: deploymentLines.length > 0 ? deploymentLines.join('\n') : '- None captured',
+      requiredExtensions: list(snapshot.vscodeContext.requiredExtensions),
+    };
+  }
+}
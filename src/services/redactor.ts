@@ -0,0 +1,188 @@
+import * as crypto from 'crypto';
+import { FileService } from './fileService';
+
+export const REDACTION_LOG_FILE = 'redactions.log';
+const REDACTION_SALT_FILE = '.redaction-salt';
+// redactions.log keeps only the most recent entries
+const MAX_LOG_ENTRIES = 1000;
+
+export interface RedactionOptions {
+  enabled: boolean;
+  // Extra regular expressions (JavaScript syntax) whose matches are masked as `custom`
+  customPatterns: string[];
+}
+
+/**
+ * Counts of masked values by type, plus the masks that were used.
+ */
+export type RedactionFindings = Map<string, Set<string>>;
+
+interface RedactionRule {
+  type: string;
+  // Named groups `pre` (kept) and `secret` (masked); without them the whole match is masked
+  pattern: RegExp;
+  skip?: (secret: string) => boolean;
+}
+
+const SENSITIVE_KEY = /(api[-_]?key|token|secret|password|passwd|credential|private[-_]?key|access[-_]?key)/i;
+const MASK = /\[redacted:[a-z0-9:_-]+\]/i;
+
+const RULES: RedactionRule[] = [
+  {
+    type: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  {
+    type: 'connection-string',
+    pattern: /(?<pre>\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)(?<secret>[^\s@/]+)(?=@)/gi,
+  },
+  { type: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g },
+  { type: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{30,}|github_pat_[A-Za-z0-9_]{40,})\b/g },
+  { type: 'openai-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { type: 'aws-key', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  { type: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { type: 'google-key', pattern: /\bAIza[A-Za-z0-9_-]{35}\b/g },
+  { type: 'bearer-token', pattern: /(?<pre>\bBearer\s+)(?<secret>[A-Za-z0-9._~+/=-]{16,})/g },
+  {
+    type: 'credential',
+    pattern: /(?<pre>\b[\w.-]*(?:api[-_]?key|token|secret|password|passwd|pwd)["']?\s*[:=]\s*["']?)(?<secret>[^\s"',;]{6,})/gi,
+  },
+  {
+    type: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    // SSH remotes such as git@github.com
+    skip: (email) => email.startsWith('git@'),
+  },
+  {
+    type: 'ip',
+    pattern: /\b(?:25[0-5]|2[0-4]\d|1?\d?\d)(?:\.(?:25[0-5]|2[0-4]\d|1?\d?\d)){3}\b/g,
+    skip: (ip) => ip === '127.0.0.1' || ip === '0.0.0.0',
+  },
+];
+
+/**
+ * Redactor masks secrets and personal data - API keys, tokens, private keys,
+ * connection-string passwords, emails, IP addresses and user-defined patterns -
+ * before text is persisted or sent to an AI provider. A value always gets the
+ * same mask (`[redacted:<type>:<hash>]`, salted per context directory), so
+ * redacted context stays comparable across files. What was masked is
+ * appended to redactions.log, by type and mask only; a pass that masks the
+ * same values as the previous one from the same source is not logged again.
+ */
+export class Redactor {
+  private options: RedactionOptions = { enabled: true, customPatterns: [] };
+  private customRules: RedactionRule[] = [];
+  private salt?: string;
+  // Last logged findings per source, so autosaves of unchanged text don't repeat them
+  private lastReported = new Map<string, string>();
+
+  constructor(private fileService?: FileService) {}
+
+  setOptions(options: RedactionOptions) {
+    this.options = options;
+    this.customRules = options.customPatterns.flatMap((source) => {
+      try {
+        return [{ type: 'custom', pattern: new RegExp(source, 'g') }];
+      } catch (e) {
+        console.error(`[persistent-context] Ignoring invalid redaction pattern ${source}:`, e);
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Mask sensitive values in `text` and log what was masked under `source`.
+   */
+  redact(text: string, source: string): string {
+    const findings: RedactionFindings = new Map();
+    const result = this.apply(text, findings);
+    this.report(source, findings);
+    return result;
+  }
+
+  /**
+   * Deep copy of `value` with every string redacted. String values under
+   * keys that look like credentials (`apiKey`, `password`, …) are masked whole.
+   */
+  redactObject<T>(value: T, source: string): T {
+    const findings: RedactionFindings = new Map();
+    const result = this.applyObject(value, findings);
+    this.report(source, findings);
+    return result;
+  }
+
+  apply(text: string, findings: RedactionFindings): string {
+    if (!this.options.enabled || !text) return text;
+    return [...RULES, ...this.customRules].reduce(
+      (current, rule) =>
+        current.replace(rule.pattern, (...args: any[]) => {
+          const match: string = args[0];
+          const groups = typeof args[args.length - 1] === 'object' ? args[args.length - 1] : undefined;
+          const secret: string = groups?.secret ?? match;
+          if (MASK.test(secret) || rule.skip?.(secret)) return match;
+          return `${groups?.pre ?? ''}${this.mask(rule.type, secret, findings)}`;
+        }),
+      text
+    );
+  }
+
+  applyObject<T>(value: T, findings: RedactionFindings, key?: string): T {
+    if (!this.options.enabled) return value;
+    if (typeof value === 'string') {
+      if (key && SENSITIVE_KEY.test(key) && value.trim() && !MASK.test(value)) {
+        return this.mask('credential', value, findings) as unknown as T;
+      }
+      return this.apply(value, findings) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.applyObject(item, findings)) as unknown as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const copy: Record<string, unknown> = {};
+      Object.entries(value as Record<string, unknown>).forEach(([k, v]) => {
+        copy[k] = this.applyObject(v, findings, k);
+      });
+      return copy as T;
+    }
+    return value;
+  }
+
+  /**
+   * Log the findings of one redaction pass; nothing is logged when nothing was masked.
+   */
+  report(source: string, findings: RedactionFindings) {
+    if (findings.size === 0 || !this.fileService) return;
+    const summary = [...findings.entries()].map(([type, masks]) => `${type} x${masks.size}`).join(', ');
+    const masks = [...findings.values()].flatMap((set) => [...set]).join(' ');
+    const entry = `${summary} ${masks}`;
+    if (this.lastReported.get(source) === entry) return;
+    this.lastReported.set(source, entry);
+    try {
+      const existing = this.fileService.fileExists(REDACTION_LOG_FILE) ? this.fileService.readFile(REDACTION_LOG_FILE) : '';
+      const lines = [...existing.split('\n').filter(Boolean), `${new Date().toISOString()} ${source}: ${entry}`];
+      this.fileService.writeFile(REDACTION_LOG_FILE, lines.slice(-MAX_LOG_ENTRIES).join('\n'));
+    } catch (e) {
+      console.error('[persistent-context] Failed to write redaction log:', e);
+    }
+  }
+
+  private mask(type: string, secret: string, findings: RedactionFindings): string {
+    const hash = crypto.createHmac('sha256', this.getSalt()).update(secret).digest('hex').substring(0, 8);
+    const mask = `[redacted:${type}:${hash}]`;
+    if (!findings.has(type)) findings.set(type, new Set());
+    findings.get(type)!.add(mask);
+    return mask;
+  }
+
+  private getSalt(): string {
+    if (this.salt) return this.salt;
+    const stored = this.fileService?.readFile(REDACTION_SALT_FILE).trim();
+    if (stored) {
+      this.salt = stored;
+    } else {
+      this.salt = crypto.randomBytes(16).toString('hex');
+      this.fileService?.writeFile(REDACTION_SALT_FILE, this.salt);
+    }
+    return this.salt;
+  }
+}
@@ -0,0 +1,77 @@
+import { Session } from '../utils/types';
+import { AIService } from './aiService';
+
+export interface RetrospectiveInput {
+  session: Session;
+  // "What Changed" bullets from the session's activeContext.md updates
+  changes: string[];
+  // `<hash> <subject>` for commits made during the session window
+  commits: string[];
+  notes: string[];
+  chat: string[];
+  // Files still modified when the session ended
+  pendingFiles: string[];
+}
+
+export interface Retrospective {
+  text: string;
+  source: 'ai' | 'fallback';
+}
+
+// Keep prompts and fallback lists readable for long sessions
+const MAX_ITEMS = 40;
+
+/**
+ * SessionRetrospective turns a finished session's recorded activity into a
+ * short "done / left to do / open questions" retrospective, asking the AI
+ * provider chain first and falling back to a deterministic summary.
+ */
+export class SessionRetrospective {
+  constructor(private aiService?: AIService) {}
+
+  async write(input: RetrospectiveInput): Promise<Retrospective> {
+    const trimmed = SessionRetrospective.trim(input);
+    if (this.aiService) {
+      const text = await this.aiService.complete(this.aiService.promptBuilder.buildRetrospective(trimmed));
+      if (text && text.trim()) return { text: text.trim(), source: 'ai' };
+    }
+    return { text: SessionRetrospective.fallback(trimmed), source: 'fallback' };
+  }
+
+  /**
+   * Deterministic retrospective: commits, notes and workspace changes count as
+   * done, uncommitted files as left to do, and notes or chat lines phrased as
+   * questions as open questions.
+   */
+  static fallback(input: RetrospectiveInput): string {
+    const bullets = (items: string[], empty: string) =>
+      items.length > 0 ? items.map((i) => (i.startsWith('- ') ? i : `- ${i}`)).join('\n') : `- ${empty}`;
+    const questions = [...input.notes, ...input.chat.map((c) => c.replace(/^-\s*/, ''))].filter((t) => t.trim().endsWith('?'));
+    const done = [
+      ...input.commits.map((c) => `Committed ${c}`),
+      ...input.notes.filter((n) => !questions.includes(n)),
+      ...input.changes,
+    ];
+
+    return `#### Done
+${bullets(done, 'Nothing recorded')}
+
+#### Left To Do
+${bullets(input.pendingFiles.map((f) => `Uncommitted: ${f}`), 'Nothing pending')}
+
+#### Open Questions
+${bullets(questions, 'None recorded')}`;
+  }
+
+  private static trim(input: RetrospectiveInput): RetrospectiveInput {
+    const unique = (items: string[]) => [...new Set(items)].slice(-MAX_ITEMS);
+    return {
+      session: input.session,
+      changes: unique(input.changes),
+      commits: unique(input.commits),
+      notes: unique(input.notes),
+      chat: unique(input.chat),
+      pendingFiles: unique(input.pendingFiles),
+    };
+  }
+}
@@ -0,0 +1,319 @@
+import { Session, SessionFilter } from '../utils/types';
+import { FileService } from './fileService';
+import { ActivityTracker } from './activityTracker';
+import { ContextCompactor } from './contextCompactor';
+
+export const SESSIONS_FILE = 'sessions.json';
+export const PROGRESS_FILE = 'progress.md';
+export const SESSION_INDEX_VERSION = 1;
+const BACKUP_DIR = 'backups';
+// Backups kept besides those a merged session still needs for unmerging
+const MAX_BACKUPS = 10;
+
+const PROGRESS_HEADER = `# Session History
+
+_Generated from sessions.json - edits to this file are overwritten._
+`;
+
+// Legacy per-note blocks; the text runs up to the next heading
+const LEGACY_NOTE = /^### (Note|Decision) for session (.*) \(([^)]*)\)\n([\s\S]*?)(?=^##|(?![\s\S]))/gm;
+
+// How many linked update headings to list per session in progress.md
+const MAX_RENDERED_UPDATES = 5;
+
+interface StoredSession {
+  id: string;
+  name: string;
+  startTime: string;
+  endTime?: string;
+  notes?: string;
+  noteEntries?: Array<{ timestamp: string; text: string }>;
+  updates?: string[];
+  pausedAt?: string;
+  activeMs?: number;
+  activeByDay?: Record<string, number>;
+  mergedFrom?: string[];
+  mergedInto?: string;
+  mergeBackup?: string;
+  tags?: string[];
+  branches?: string[];
+  issues?: string[];
+  boundBranch?: string;
+  retrospective?: string;
+}
+
+interface SessionIndex {
+  version: number;
+  sessions: StoredSession[];
+}
+
+/**
+ * SessionStore keeps sessions in a JSON index (sessions.json) and regenerates
+ * progress.md from it on every write. A progress.md written by earlier
+ * versions is imported the first time the index is read.
+ */
+export class SessionStore {
+  constructor(private fileService: FileService) {}
+
+  /**
+   * All sessions, oldest first.
+   */
+  list(): Session[] {
+    return this.read().sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  get(id: string): Session | undefined {
+    return this.read().find((s) => s.id === id);
+  }
+
+  /**
+   * Most recent session with the given name, ignoring sessions merged into another.
+   */
+  findByName(name: string): Session | undefined {
+    return this.list().reverse().find((s) => s.name === name && !s.mergedInto);
+  }
+
+  /**
+   * Most recently started session that has not been merged into another.
+   */
+  latest(): Session | undefined {
+    return this.list().filter((s) => !s.mergedInto).pop();
+  }
+
+  /**
+   * Insert or replace sessions (matched by id) and regenerate progress.md.
+   */
+  save(...updated: Session[]) {
+    const ids = updated.map((s) => s.id);
+    const sessions = this.read().filter((s) => !ids.includes(s.id));
+    this.write([...sessions, ...updated]);
+  }
+
+  remove(ids: string[]) {
+    this.write(this.read().filter((s) => !ids.includes(s.id)));
+  }
+
+  /**
+   * Copy the current index to backups/ and return the backup's file name.
+   * Only the most recent backups are kept, plus any a merged session refers to.
+   */
+  backup(): string {
+    const sessions = this.read();
+    const index: SessionIndex = { version: SESSION_INDEX_VERSION, sessions: sessions.map(SessionStore.serialize) };
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    let fileName = `${BACKUP_DIR}/sessions-${stamp}.json`;
+    for (let i = 1; this.fileService.fileExists(fileName); i++) {
+      fileName = `${BACKUP_DIR}/sessions-${stamp}_${i}.json`;
+    }
+    this.fileService.writeFile(fileName, JSON.stringify(index, null, 2));
+
+    const referenced = new Set(sessions.map((s) => s.mergeBackup));
+    const unreferenced = this.fileService
+      .listFiles(BACKUP_DIR)
+      .map((name) => `${BACKUP_DIR}/${name}`)
+      .filter((name) => !referenced.has(name));
+    unreferenced.slice(0, -MAX_BACKUPS).forEach((name) => this.fileService.deleteFile(name));
+    return fileName;
+  }
+
+  /**
+   * Sessions from a backup written by `backup()`, or undefined if it is missing or unreadable.
+   */
+  loadBackup(fileName: string): Session[] | undefined {
+    if (!this.fileService.fileExists(fileName)) return undefined;
+    try {
+      const index = JSON.parse(this.fileService.readFile(fileName)) as SessionIndex;
+      return (index.sessions || []).map(SessionStore.revive);
+    } catch (e) {
+      console.error(`[persistent-context] Failed to read session backup ${fileName}:`, e);
+      return undefined;
+    }
+  }
+
+  private read(): Session[] {
+    if (!this.fileService.fileExists(SESSIONS_FILE)) {
+      return SessionStore.parseProgress(this.fileService.readFile(PROGRESS_FILE));
+    }
+    // Outside the try: an encrypted index without a key must not read as empty and be overwritten
+    const content = this.fileService.readFile(SESSIONS_FILE);
+    try {
+      const index = JSON.parse(content) as SessionIndex;
+      if (typeof index.version !== 'number' || index.version > SESSION_INDEX_VERSION) {
+        console.warn(`[persistent-context] Unsupported session index version: ${index.version}`);
+        return [];
+      }
+      return (index.sessions || []).map(SessionStore.revive);
+    } catch (e) {
+      console.error('[persistent-context] Failed to read session index:', e);
+      return [];
+    }
+  }
+
+  private write(sessions: Session[]) {
+    sessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    const index: SessionIndex = { version: SESSION_INDEX_VERSION, sessions: sessions.map(SessionStore.serialize) };
+    this.fileService.writeFile(SESSIONS_FILE, JSON.stringify(index, null, 2));
+    this.fileService.writeFile(PROGRESS_FILE, SessionStore.renderProgress(sessions));
+  }
+
+  private static serialize(s: Session): StoredSession {
+    return {
+      id: s.id,
+      name: s.name,
+      startTime: s.startTime.toISOString(),
+      endTime: s.endTime?.toISOString(),
+      notes: s.notes,
+      noteEntries: s.noteEntries?.map((n) => ({ timestamp: n.timestamp.toISOString(), text: n.text })),
+      updates: s.updates,
+      pausedAt: s.pausedAt?.toISOString(),
+      activeMs: s.activeMs,
+      activeByDay: s.activeByDay,
+      mergedFrom: s.mergedFrom,
+      mergedInto: s.mergedInto,
+      mergeBackup: s.mergeBackup,
+      tags: s.tags,
+      branches: s.branches,
+      issues: s.issues,
+      boundBranch: s.boundBranch,
+      retrospective: s.retrospective,
+    };
+  }
+
+  private static revive(s: StoredSession): Session {
+    return {
+      id: s.id,
+      name: s.name,
+      startTime: new Date(s.startTime),
+      endTime: s.endTime ? new Date(s.endTime) : undefined,
+      notes: s.notes,
+      noteEntries: s.noteEntries?.map((n) => ({ timestamp: new Date(n.timestamp), text: n.text })),
+      updates: s.updates,
+      pausedAt: s.pausedAt ? new Date(s.pausedAt) : undefined,
+      activeMs: s.activeMs,
+      activeByDay: s.activeByDay,
+      mergedFrom: s.mergedFrom,
+      mergedInto: s.mergedInto,
+      mergeBackup: s.mergeBackup,
+      tags: s.tags,
+      branches: s.branches,
+      issues: s.issues,
+      boundBranch: s.boundBranch,
+      retrospective: s.retrospective,
+    };
+  }
+
+  /**
+   * Sessions matching every criterion set in `filter`. Tags and branches match
+   * case-insensitively; the date range matches sessions that overlap it.
+   */
+  static filter(sessions: Session[], filter: SessionFilter): Session[] {
+    const has = (values: string[] | undefined, wanted?: string) =>
+      !wanted || (values || []).some((v) => v.toLowerCase() === wanted.toLowerCase());
+    return sessions.filter((s) => {
+      const end = s.endTime || s.pausedAt || new Date();
+      return (
+        has(s.tags, filter.tag) &&
+        has(s.branches, filter.branch) &&
+        has(s.issues, filter.issue) &&
+        (!filter.from || end.getTime() >= filter.from.getTime()) &&
+        (!filter.to || s.startTime.getTime() <= filter.to.getTime())
+      );
+    });
+  }
+
+  /**
+   * Sessions merged into another are listed under the merged session rather than on their own.
+   */
+  static renderProgress(sessions: Session[]): string {
+    return PROGRESS_HEADER + sessions
+      .filter((s) => !s.mergedInto)
+      .map((s) => '\n' + SessionStore.renderSession(s, sessions))
+      .join('');
+  }
+
+  static renderSession(s: Session, all: Session[] = []): string {
+    const lines = [
+      `## Session: ${s.name}`,
+      `- ID: ${s.id}`,
+      `**Date:** ${s.startTime.toLocaleString()}`,
+      ContextCompactor.timestampComment(s.startTime),
+      `**Ended:** ${s.endTime ? s.endTime.toLocaleString() : s.pausedAt ? `Paused ${s.pausedAt.toLocaleString()}` : 'In progress'}`,
+      `**Active Time:** ${ActivityTracker.formatDuration(s.activeMs || 0)}`,
+      `**Notes:** ${s.notes || 'No notes'}`,
+    ];
+    if (s.tags && s.tags.length > 0) lines.push(`**Tags:** ${s.tags.join(', ')}`);
+    if (s.branches && s.branches.length > 0) lines.push(`**Branches:** ${s.branches.join(', ')}`);
+    if (s.issues && s.issues.length > 0) lines.push(`**Issues:** ${s.issues.join(', ')}`);
+    const days = Object.keys(s.activeByDay || {}).sort();
+    if (days.length > 0) {
+      lines.push('', '### Active Time by Day', ...days.map((d) => `- ${d}: ${ActivityTracker.formatDuration(s.activeByDay![d])}`));
+    }
+    if (s.retrospective) {
+      // Demote headings so the retrospective cannot break the session structure
+      lines.push('', '### Retrospective', s.retrospective.trim().replace(/^#{1,3} /gm, '#### '));
+    }
+    if (s.mergedFrom && s.mergedFrom.length > 0) {
+      lines.push('', '### Merged From', ...s.mergedFrom.map((id) => {
+        const source = all.find((o) => o.id === id);
+        return source
+          ? `- ${source.name} (ID: ${id}, ${source.startTime.toLocaleString()}, ${ActivityTracker.formatDuration(source.activeMs || 0)} active)`
+          : `- ID: ${id}`;
+      }));
+    }
+    if (s.noteEntries && s.noteEntries.length > 0) {
+      lines.push('', '### Notes', ...s.noteEntries.map((n) => `- (${n.timestamp.toLocaleString()}) ${n.text}`));
+    }
+    if (s.updates && s.updates.length > 0) {
+      const shown = s.updates.slice(-MAX_RENDERED_UPDATES);
+      lines.push('', `### Linked Updates (${s.updates.length})`, ...shown.map((u) => `- ${u}`));
+      if (s.updates.length > shown.length) {
+        lines.push(`- …and ${s.updates.length - shown.length} earlier`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Import sessions from a progress.md written before sessions.json existed.
+   * Notes were appended as `### Note for session <name> (<time>)` blocks while
+   * the session ran, so they precede their session entry and are matched by name.
+   */
+  static parseProgress(content: string): Session[] {
+    if (!content) return [];
+    const sessions: Session[] = [];
+
+    const parts = content.split(/^## Session:\s*/m).slice(1);
+    parts.forEach((body, index) => {
+      const field = (name: string) => (body.match(new RegExp(`^\\*\\*${name}:\\*\\*\\s*(.+)$`, 'm')) || [])[1]?.trim();
+      const id = (body.match(/^- ID:\s*(.+)$/m) || [])[1]?.trim() || `legacy-${index + 1}`;
+      const ended = field('Ended');
+      const notes = field('Notes');
+      sessions.push({
+        id,
+        name: body.split('\n')[0].trim() || 'Unnamed session',
+        startTime: SessionStore.parseDate(field('Date'), id),
+        endTime: ended && ended !== 'In progress' && !ended.startsWith('Paused') ? SessionStore.parseDate(ended) : undefined,
+        notes: notes && notes !== 'No notes' ? notes : undefined,
+      });
+    });
+
+    let match: RegExpExecArray | null;
+    LEGACY_NOTE.lastIndex = 0;
+    while ((match = LEGACY_NOTE.exec(content)) !== null) {
+      const owner = [...sessions].reverse().find((s) => s.name === match![2].trim());
+      if (!owner) continue;
+      const text = (match[1] === 'Decision' ? 'Decision: ' : '') + match[4].trim();
+      owner.noteEntries = [...(owner.noteEntries || []), { timestamp: SessionStore.parseDate(match[3]), text }];
+    }
+    return sessions;
+  }
+
+  /**
+   * Legacy ids are `Date.now()` values, which beat locale-formatted dates for accuracy.
+   */
+  private static parseDate(value?: string, id?: string): Date {
+    if (id && /^\d{12,}$/.test(id)) return new Date(parseInt(id, 10));
+    const parsed = value ? new Date(value) : new Date(NaN);
+    return isNaN(parsed.getTime()) ? new Date(0) : parsed;
+  }
+}
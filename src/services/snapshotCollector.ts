@@ -2,6 +2,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { GitService } from './gitService';
+import { Redactor } from './redactor';
+import { WorkspacePolicy } from './workspacePolicy';
 
 export interface ContextSnapshot {
   timestamp: string;
@@ -48,13 +50,27 @@ export interface ContextSnapshot {
 }
 
 export class ContextSnapshotCollector {
+  private policy: WorkspacePolicy;
+
   constructor(
     private workspaceRoot: string,
-    private gitService: GitService
-  ) {}
+    private gitService: GitService,
+    private redactor?: Redactor
+  ) {
+    this.policy = WorkspacePolicy.permissive(workspaceRoot);
+  }
 
+  setPolicy(policy: WorkspacePolicy) {
+    this.policy = policy;
+  }
+
+  /**
+   * Collect a snapshot of the workspace. With a redactor, secrets and personal
+   * data (including credentials in .vscode/settings.json) are masked. Paths
+   * excluded by the workspace policy are left out of every file list.
+   */
   async collect(): Promise<ContextSnapshot> {
-    return {
+    const snapshot: ContextSnapshot = {
       timestamp: new Date().toISOString(),
       workspaceMetadata: this.collectWorkspaceMetadata(),
       systemInfo: this.collectSystemInfo(),
@@ -64,6 +80,7 @@ export class ContextSnapshotCollector {
       openEditors: this.collectOpenEditors(),
       deploymentContext: {},
     };
+    return this.redactor ? this.redactor.redactObject(snapshot, 'snapshot') : snapshot;
   }
 
   private collectWorkspaceMetadata() {
@@ -144,8 +161,12 @@ export class ContextSnapshotCollector {
       const entries = fs.readdirSync(this.workspaceRoot, { withFileTypes: true });
       entries.forEach((entry) => {
         if (entry.isDirectory() && !entry.name.startsWith('.')) {
-          directories.push(entry.name);
-        } else if (entry.isFile() && ['.md', '.json', '.yml', '.yaml'].some((ext) => entry.name.endsWith(ext))) {
+          if (!this.policy.isExcluded(entry.name)) directories.push(entry.name);
+        } else if (
+          entry.isFile() &&
+          ['.md', '.json', '.yml', '.yaml'].some((ext) => entry.name.endsWith(ext)) &&
+          !this.policy.isExcluded(entry.name)
+        ) {
           keyFiles.push(entry.name);
         }
       });
@@ -166,8 +187,11 @@ export class ContextSnapshotCollector {
       };
     });
 
-    const stagedFiles = this.gitService.getStagedFiles();
-    const modifiedFiles = this.gitService.getChangedFiles();
+    const stagedFiles = this.policy.filterPaths(this.gitService.getStagedFiles(), (file) => file);
+    // `git status --short` lines: "XY path" or "XY old -> new" for renames
+    const modifiedFiles = this.gitService.getChangedFiles().filter(
+      (line) => !line.substring(3).split(' -> ').some((file) => this.policy.isExcluded(file.replace(/^"|"$/g, '')))
+    );
 
     return {
       branch,
@@ -178,7 +202,8 @@ export class ContextSnapshotCollector {
   }
 
   private collectOpenEditors() {
-    return vscode.window.visibleTextEditors.map((editor) => ({
+    const editors = this.policy.filterPaths(vscode.window.visibleTextEditors, (editor) => editor.document.fileName);
+    return editors.map((editor) => ({
       path: editor.document.fileName,
       language: editor.document.languageId,
       lines: editor.document.lineCount,
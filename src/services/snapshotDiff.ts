@@ -0,0 +1,88 @@
+import * as path from 'path';
+import { ContextSnapshot } from './snapshotCollector';
+
+type DeploymentField = keyof ContextSnapshot['deploymentContext'];
+
+export interface SnapshotDiff {
+  branchChanged?: { from: string; to: string };
+  editorsOpened: string[];
+  editorsClosed: string[];
+  newCommits: Array<{ hash: string; message: string }>;
+  filesModified: string[];
+  filesReverted: string[];
+  filesStaged: string[];
+  filesUnstaged: string[];
+  deploymentChanges: Array<{ field: DeploymentField; from?: string | boolean; to?: string | boolean }>;
+}
+
+const DEPLOYMENT_FIELDS: Array<{ field: DeploymentField; label: string }> = [
+  { field: 'location', label: 'Location' },
+  { field: 'accessMethod', label: 'Access Method' },
+  { field: 'deploymentMethod', label: 'Deployment Method' },
+  { field: 'currentWorkMode', label: 'Work Mode' },
+  { field: 'isProduction', label: 'Production' },
+];
+
+/**
+ * SnapshotDiffer compares two ContextSnapshots and reports what changed.
+ * Volatile fields such as the timestamp are ignored.
+ */
+export class SnapshotDiffer {
+  static diff(prev: ContextSnapshot, next: ContextSnapshot): SnapshotDiff {
+    const prevEditors = prev.openEditors.map((e) => e.path);
+    const nextEditors = next.openEditors.map((e) => e.path);
+    const prevHashes = new Set(prev.git.recentCommits.map((c) => c.hash));
+
+    return {
+      branchChanged: prev.git.branch !== next.git.branch
+        ? { from: prev.git.branch, to: next.git.branch }
+        : undefined,
+      editorsOpened: nextEditors.filter((p) => !prevEditors.includes(p)),
+      editorsClosed: prevEditors.filter((p) => !nextEditors.includes(p)),
+      newCommits: next.git.recentCommits.filter((c) => !prevHashes.has(c.hash)),
+      filesModified: next.git.modifiedFiles.filter((f) => !prev.git.modifiedFiles.includes(f)),
+      filesReverted: prev.git.modifiedFiles.filter((f) => !next.git.modifiedFiles.includes(f)),
+      filesStaged: next.git.stagedFiles.filter((f) => !prev.git.stagedFiles.includes(f)),
+      filesUnstaged: prev.git.stagedFiles.filter((f) => !next.git.stagedFiles.includes(f)),
+      deploymentChanges: DEPLOYMENT_FIELDS
+        .filter(({ field }) => prev.deploymentContext[field] !== next.deploymentContext[field])
+        .map(({ field }) => ({ field, from: prev.deploymentContext[field], to: next.deploymentContext[field] })),
+    };
+  }
+
+  static isEmpty(diff: SnapshotDiff): boolean {
+    return (
+      !diff.branchChanged &&
+      diff.editorsOpened.length === 0 &&
+      diff.editorsClosed.length === 0 &&
+      diff.newCommits.length === 0 &&
+      diff.filesModified.length === 0 &&
+      diff.filesReverted.length === 0 &&
+      diff.filesStaged.length === 0 &&
+      diff.filesUnstaged.length === 0 &&
+      diff.deploymentChanges.length === 0
+    );
+  }
+
+  /**
+   * Render a diff as markdown bullet lines (empty array when nothing changed).
+   */
+  static format(diff: SnapshotDiff): string[] {
+    const lines: string[] = [];
+    if (diff.branchChanged) {
+      lines.push(`- Switched branch: ${diff.branchChanged.from} → ${diff.branchChanged.to}`);
+    }
+    diff.newCommits.forEach((c) => lines.push(`- New commit: ${c.hash}: ${c.message}`));
+    diff.editorsOpened.forEach((p) => lines.push(`- Opened: ${path.basename(p)}`));
+    diff.editorsClosed.forEach((p) => lines.push(`- Closed: ${path.basename(p)}`));
+    diff.filesModified.forEach((f) => lines.push(`- Modified: ${f}`));
+    diff.filesReverted.forEach((f) => lines.push(`- No longer modified: ${f}`));
+    diff.filesStaged.forEach((f) => lines.push(`- Staged: ${f}`));
+    diff.filesUnstaged.forEach((f) => lines.push(`- Unstaged: ${f}`));
+    diff.deploymentChanges.forEach(({ field, from, to }) => {
+      const label = DEPLOYMENT_FIELDS.find((d) => d.field === field)!.label;
+      lines.push(`- ${label}: ${from === undefined ? '(unset)' : from} → ${to === undefined ? '(unset)' : to}`);
+    });
+    return lines;
+  }
+}
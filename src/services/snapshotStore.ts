@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContextSnapshot } from './snapshotCollector';
+import { ContextCipher } from './contextCipher';
+import { FileService } from './fileService';
+
+/**
+ * Bump when the ContextSnapshot shape changes incompatibly so readers can
+ * tell old records apart from new ones.
+ */
+export const SNAPSHOT_SCHEMA_VERSION = 1;
+
+export interface StoredSnapshot {
+  schemaVersion: number;
+  savedAt: string;
+  snapshot: ContextSnapshot;
+}
+
+export interface SnapshotRetention {
+  maxCount: number;
+  maxAgeDays: number;
+}
+
+/**
+ * SnapshotStore persists raw ContextSnapshots as schema-versioned JSON files
+ * under `<contextDir>/snapshots/`, one file per snapshot, named by timestamp
+ * so that lexical order is chronological.
+ */
+export class SnapshotStore {
+  private snapshotDir: string;
+
+  constructor(
+    contextDir: string,
+    private retention: SnapshotRetention = { maxCount: 500, maxAgeDays: 30 },
+    private cipher?: ContextCipher
+  ) {
+    this.snapshotDir = path.join(contextDir, 'snapshots');
+  }
+
+  setCipher(cipher?: ContextCipher) {
+    this.cipher = cipher;
+  }
+
+  setRetention(retention: SnapshotRetention) {
+    this.retention = retention;
+  }
+
+  getDirectory(): string {
+    return this.snapshotDir;
+  }
+
+  /**
+   * Write a snapshot and apply the retention limits. Returns the file name.
+   */
+  save(snapshot: ContextSnapshot): string {
+    if (!fs.existsSync(this.snapshotDir)) {
+      fs.mkdirSync(this.snapshotDir, { recursive: true });
+    }
+
+    const savedAt = new Date().toISOString();
+    let fileName = `${savedAt.replace(/[:.]/g, '-')}.json`;
+    // Two snapshots within the same millisecond get a numeric suffix
+    for (let i = 1; fs.existsSync(path.join(this.snapshotDir, fileName)); i++) {
+      fileName = `${savedAt.replace(/[:.]/g, '-')}_${i}.json`;
+    }
+
+    const record: StoredSnapshot = { schemaVersion: SNAPSHOT_SCHEMA_VERSION, savedAt, snapshot };
+    const json = JSON.stringify(record, null, 2);
+    fs.writeFileSync(path.join(this.snapshotDir, fileName), this.cipher ? this.cipher.encrypt(json) : json, 'utf-8');
+    this.prune();
+    return fileName;
+  }
+
+  /**
+   * Return stored snapshot file names, oldest first.
+   */
+  list(): string[] {
+    if (!fs.existsSync(this.snapshotDir)) return [];
+    return fs.readdirSync(this.snapshotDir).filter((f) => f.endsWith('.json')).sort();
+  }
+
+  load(fileName: string): StoredSnapshot | undefined {
+    const filePath = path.join(this.snapshotDir, fileName);
+    if (!fs.existsSync(filePath)) return undefined;
+    try {
+      const record = JSON.parse(FileService.decode(fs.readFileSync(filePath, 'utf-8'), fileName, this.cipher)) as StoredSnapshot;
+      if (typeof record.schemaVersion !== 'number' || record.schemaVersion > SNAPSHOT_SCHEMA_VERSION) {
+        console.warn(`[persistent-context] Unsupported snapshot schema in ${fileName}: ${record.schemaVersion}`);
+        return undefined;
+      }
+      return record;
+    } catch (e) {
+      console.error(`[persistent-context] Failed to read snapshot ${fileName}:`, e);
+      return undefined;
+    }
+  }
+
+  latest(): StoredSnapshot | undefined {
+    const files = this.list();
+    return files.length > 0 ? this.load(files[files.length - 1]) : undefined;
+  }
+
+  /**
+   * Delete snapshots beyond maxCount (oldest first) or older than maxAgeDays.
+   * A limit of 0 disables that rule.
+   */
+  prune() {
+    const files = this.list();
+    const { maxCount, maxAgeDays } = this.retention;
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+
+    files.forEach((fileName, index) => {
+      const overCount = maxCount > 0 && index < files.length - maxCount;
+      const filePath = path.join(this.snapshotDir, fileName);
+      let tooOld = false;
+      if (cutoff > 0) {
+        try {
+          tooOld = fs.statSync(filePath).mtimeMs < cutoff;
+        } catch {
+          // file vanished between list and stat
+        }
+      }
+      if (overCount || tooOld) {
+        try {
+          fs.unlinkSync(filePath);
+        } catch (e) {
+          console.error(`[persistent-context] Failed to prune snapshot ${fileName}:`, e);
+        }
+      }
+    });
+  }
+}
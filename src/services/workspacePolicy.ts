@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export const POLICY_FILE = '.persistent-context.json';
+
+/**
+ * Privacy rules for one workspace. Keys match the `persistentContext.*`
+ * settings so `.persistent-context.json` reads like a settings excerpt.
+ */
+export interface PrivacyRules {
+  // false: no context directory, autosave, snapshots or chat capture for this workspace
+  enableTracking: boolean;
+  // Globs relative to the workspace root; a pattern without `/` matches at any depth
+  excludePaths: string[];
+  enableAISummaries: boolean;
+  // false: only providers on this machine (Ollama or an OpenAI-compatible server on localhost)
+  allowRemoteAIProviders: boolean;
+}
+
+const DEFAULT_RULES: PrivacyRules = {
+  enableTracking: true,
+  excludePaths: [],
+  enableAISummaries: true,
+  allowRemoteAIProviders: true,
+};
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+/**
+ * WorkspacePolicy combines the privacy settings with the workspace's
+ * `.persistent-context.json`. The stricter of the two always wins, so a
+ * repository can opt itself out regardless of user settings, and a user can
+ * restrict a repository that ships no rules.
+ */
+export class WorkspacePolicy {
+  private matchers: RegExp[];
+
+  constructor(readonly rules: PrivacyRules, private workspaceRoot: string) {
+    this.matchers = rules.excludePaths.map(WorkspacePolicy.globToRegExp);
+  }
+
+  static load(workspaceRoot: string): WorkspacePolicy {
+    const cfg = vscode.workspace.getConfiguration('persistentContext');
+    const fromSettings: PrivacyRules = {
+      enableTracking: cfg.get<boolean>('enableTracking', true),
+      excludePaths: cfg.get<string[]>('excludePaths', []) || [],
+      enableAISummaries: cfg.get<boolean>('enableAISummaries', true),
+      allowRemoteAIProviders: cfg.get<boolean>('allowRemoteAIProviders', true),
+    };
+    const fromFile = WorkspacePolicy.readFile(workspaceRoot);
+    return new WorkspacePolicy({
+      enableTracking: fromSettings.enableTracking && fromFile.enableTracking !== false,
+      excludePaths: [...fromSettings.excludePaths, ...(fromFile.excludePaths || [])],
+      enableAISummaries: fromSettings.enableAISummaries && fromFile.enableAISummaries !== false,
+      allowRemoteAIProviders: fromSettings.allowRemoteAIProviders && fromFile.allowRemoteAIProviders !== false,
+    }, workspaceRoot);
+  }
+
+  static permissive(workspaceRoot: string): WorkspacePolicy {
+    return new WorkspacePolicy({ ...DEFAULT_RULES }, workspaceRoot);
+  }
+
+  private static readFile(workspaceRoot: string): Partial<PrivacyRules> {
+    const filePath = path.join(workspaceRoot, POLICY_FILE);
+    if (!fs.existsSync(filePath)) return {};
+    try {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return {
+        enableTracking: typeof raw.enableTracking === 'boolean' ? raw.enableTracking : undefined,
+        excludePaths: Array.isArray(raw.excludePaths) ? raw.excludePaths.filter((p: unknown) => typeof p === 'string') : undefined,
+        enableAISummaries: typeof raw.enableAISummaries === 'boolean' ? raw.enableAISummaries : undefined,
+        allowRemoteAIProviders: typeof raw.allowRemoteAIProviders === 'boolean' ? raw.allowRemoteAIProviders : undefined,
+      };
+    } catch (e) {
+      // A broken rules file must not silently lift the repository's restrictions
+      console.error(`[persistent-context] Invalid ${POLICY_FILE}, tracking disabled:`, e);
+      return { enableTracking: false };
+    }
+  }
+
+  /**
+   * Whether a file (absolute, or relative to the workspace root) matches an excluded glob.
+   * A pattern matching a directory excludes everything below it.
+   */
+  isExcluded(filePath: string): boolean {
+    if (this.matchers.length === 0) return false;
+    const relative = path.isAbsolute(filePath) ? path.relative(this.workspaceRoot, filePath) : filePath;
+    const candidate = (relative.startsWith('..') ? filePath : relative).split(path.sep).join('/');
+    return this.matchers.some((matcher) => matcher.test(candidate));
+  }
+
+  filterPaths<T>(items: readonly T[], pathOf: (item: T) => string): T[] {
+    return items.filter((item) => !this.isExcluded(pathOf(item)));
+  }
+
+  /**
+   * Whether an AI endpoint URL points at this machine.
+   */
+  static isLocalEndpoint(url: string): boolean {
+    try {
+      return LOCAL_HOSTS.includes(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * `**` spans directories, `*` and `?` stay within one path segment.
+   */
+  static globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+    if (!pattern.includes('/')) pattern = `**/${pattern}`;
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const ch = pattern[i];
+      if (ch === '*' && pattern[i + 1] === '*') {
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else if (ch === '*') {
+        source += '[^/]*';
+      } else if (ch === '?') {
+        source += '[^/]';
+      } else {
+        source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}(?:/.*)?$`);
+  }
+}
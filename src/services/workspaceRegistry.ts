@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileService } from './fileService';
+import { Session } from '../utils/types';
+import { SessionStore } from './sessionStore';
+import { SnapshotStore } from './snapshotStore';
+import { ContextCipher } from './contextCipher';
+
+export const WORKSPACE_INFO_FILE = '.workspace-info';
+
+export interface WorkspaceSummary {
+  // Context directory, `<storageRoot>/<name>-<hash>`
+  contextDir: string;
+  name: string;
+  workspacePath: string;
+  exists: boolean;
+  // Created on this machine; a synced storage directory also holds other machines' workspaces
+  local: boolean;
+  created?: Date;
+  lastUpdated?: Date;
+  sizeBytes: number;
+  branch?: string;
+  session?: { name: string; status: 'active' | 'paused' | 'ended' };
+}
+
+/**
+ * WorkspaceRegistry reads every workspace context directory under the common
+ * storage directory, identified by its .workspace-info file, and summarizes
+ * each one for the cross-workspace dashboard.
+ */
+export class WorkspaceRegistry {
+  constructor(private storageRoot: string, private cipher?: ContextCipher, private machineId?: string) {}
+
+  /**
+   * All known workspaces, most recently updated first.
+   */
+  list(): WorkspaceSummary[] {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(this.storageRoot);
+    } catch {
+      return [];
+    }
+    return entries
+      .map((name) => path.join(this.storageRoot, name))
+      .filter((dir) => fs.existsSync(path.join(dir, WORKSPACE_INFO_FILE)))
+      .map((dir) => this.summarize(dir))
+      .sort((a, b) => (b.lastUpdated?.getTime() || 0) - (a.lastUpdated?.getTime() || 0));
+  }
+
+  /**
+   * Delete the context directories of this machine's workspaces whose folder
+   * no longer exists. Returns the removed entries.
+   */
+  prune(): WorkspaceSummary[] {
+    const missing = this.list().filter((w) => !w.exists && w.local);
+    const removed: WorkspaceSummary[] = [];
+    for (const workspace of missing) {
+      try {
+        fs.rmSync(workspace.contextDir, { recursive: true, force: true });
+        removed.push(workspace);
+      } catch (e) {
+        console.error(`[persistent-context] Failed to prune ${workspace.contextDir}:`, e);
+      }
+    }
+    return removed;
+  }
+
+  summarize(contextDir: string): WorkspaceSummary {
+    let info: { workspacePath?: string; created?: string; machineId?: string } = {};
+    try {
+      info = JSON.parse(fs.readFileSync(path.join(contextDir, WORKSPACE_INFO_FILE), 'utf-8'));
+    } catch (e) {
+      console.error(`[persistent-context] Unreadable ${WORKSPACE_INFO_FILE} in ${contextDir}:`, e);
+    }
+
+    const workspacePath = info.workspacePath || '';
+    const { sizeBytes, lastModified } = WorkspaceRegistry.measure(contextDir);
+    let latest: Session | undefined;
+    try {
+      latest = new SessionStore(new FileService(contextDir, this.cipher)).latest();
+    } catch (e) {
+      console.error(`[persistent-context] Unreadable sessions in ${contextDir}:`, e);
+    }
+    const snapshot = new SnapshotStore(contextDir, undefined, this.cipher).latest()?.snapshot;
+
+    return {
+      contextDir,
+      name: workspacePath ? path.basename(workspacePath) : path.basename(contextDir),
+      workspacePath,
+      exists: !!workspacePath && fs.existsSync(workspacePath),
+      // Without a machine id the origin is only certain while the storage is not synced
+      local: info.machineId
+        ? info.machineId === this.machineId
+        : !fs.existsSync(path.join(this.storageRoot, '.git')),
+      created: info.created ? new Date(info.created) : undefined,
+      lastUpdated: lastModified,
+      sizeBytes,
+      branch: snapshot?.git.branch || latest?.branches?.[latest.branches.length - 1],
+      session: latest
+        ? { name: latest.name, status: latest.endTime ? 'ended' : latest.pausedAt ? 'paused' : 'active' }
+        : undefined,
+    };
+  }
+
+  /**
+   * Total size and newest modification time of the files in a directory tree.
+   */
+  private static measure(dir: string): { sizeBytes: number; lastModified?: Date } {
+    let sizeBytes = 0;
+    let newest = 0;
+    const walk = (current: string) => {
+      let names: string[];
+      try {
+        names = fs.readdirSync(current);
+      } catch {
+        return;
+      }
+      for (const name of names) {
+        const full = path.join(current, name);
+        try {
+          const stat = fs.statSync(full);
+          if (stat.isDirectory()) {
+            walk(full);
+          } else {
+            sizeBytes += stat.size;
+            if (name !== WORKSPACE_INFO_FILE) newest = Math.max(newest, stat.mtimeMs);
+          }
+        } catch {
+          // file vanished while walking
+        }
+      }
+    };
+    walk(dir);
+    return { sizeBytes, lastModified: newest > 0 ? new Date(newest) : undefined };
+  }
+
+  static formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+}
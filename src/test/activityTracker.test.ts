@@ -0,0 +1,36 @@
+import { expect } from 'chai';
+import { ActivityTracker } from '../services/activityTracker';
+import { Session } from '../utils/types';
+
+describe('ActivityTracker', () => {
+  const minutes = (n: number) => n * 60 * 1000;
+  const newSession = (): Session => ({ id: '1', name: 'Test', startTime: new Date(2026, 2, 1, 9, 0) });
+
+  it('credits time between activity signals and skips idle gaps', () => {
+    const session = newSession();
+    const tracker = new ActivityTracker(minutes(5));
+    const t0 = new Date(2026, 2, 1, 9, 0).getTime();
+
+    tracker.start(new Date(t0));
+    expect(tracker.record(session, new Date(t0 + minutes(3)))).to.equal(minutes(3));
+    expect(tracker.record(session, new Date(t0 + minutes(6)))).to.equal(minutes(3));
+    // 30 minutes without activity is idle
+    expect(tracker.record(session, new Date(t0 + minutes(36)))).to.equal(0);
+    tracker.stop(session, new Date(t0 + minutes(40)));
+
+    expect(session.activeMs).to.equal(minutes(10));
+    expect(session.activeByDay).to.deep.equal({ '2026-03-01': minutes(10) });
+    expect(tracker.isTracking()).to.equal(false);
+    // Signals while stopped are ignored
+    expect(tracker.record(session, new Date(t0 + minutes(41)))).to.equal(0);
+  });
+
+  it('splits active time across local midnight', () => {
+    const session = newSession();
+    ActivityTracker.credit(session, new Date(2026, 2, 1, 23, 58), new Date(2026, 2, 2, 0, 3));
+
+    expect(session.activeMs).to.equal(minutes(5));
+    expect(session.activeByDay).to.deep.equal({ '2026-03-01': minutes(2), '2026-03-02': minutes(3) });
+    expect(ActivityTracker.formatDuration(minutes(125))).to.equal('2h 05m');
+  });
+});
@@ -0,0 +1,201 @@
+import { expect } from 'chai';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as vscode from 'vscode';
+import { AIService } from '../services/aiService';
+import { CredentialStore } from '../services/credentialStore';
+import { makeSnapshot } from './fixtures/snapshot';
+
+describe('AIService (OpenAI-compatible provider)', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handler: (req: http.IncomingMessage, body: string, res: http.ServerResponse) => void;
+  let settings: Record<string, any>;
+  let originalGetConfiguration: typeof vscode.workspace.getConfiguration;
+
+  before((done) => {
+    originalGetConfiguration = vscode.workspace.getConfiguration;
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => handler(req, body, res));
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    settings = { aiProvider: 'openai', openaiBaseUrl: baseUrl, openaiModel: 'local-model', openaiTimeout: 1 };
+    (vscode.workspace as any).getConfiguration = () => ({
+      get: (key: string, defaultValue?: any) => (key in settings ? settings[key] : defaultValue),
+    });
+  });
+
+  after((done) => {
+    (vscode.workspace as any).getConfiguration = originalGetConfiguration;
+    server.close(() => done());
+  });
+
+  it('posts a chat completion and returns the message content', async () => {
+    let seen: { url?: string; auth?: string; body?: any } = {};
+    handler = (req, body, res) => {
+      seen = { url: req.url, auth: req.headers.authorization, body: JSON.parse(body) };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { content: '  Project summary  ' } }] }));
+    };
+    settings.openaiApiKey = 'sk-test';
+
+    const ai = new AIService('/tmp/demo');
+    const summary = await ai.summarize(makeSnapshot());
+
+    expect(summary).to.equal('Project summary');
+    expect(ai.hasError()).to.equal(false);
+    expect(seen.url).to.equal('/v1/chat/completions');
+    expect(seen.auth).to.equal('Bearer sk-test');
+    expect(seen.body.model).to.equal('local-model');
+    expect(seen.body.messages[0].content).to.include('demo');
+  });
+
+  it('omits the Authorization header when no API key is configured', async () => {
+    let auth: string | undefined = 'unset';
+    handler = (req, _body, res) => {
+      auth = req.headers.authorization;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { content: 'ok' } }] }));
+    };
+
+    const ai = new AIService('/tmp/demo');
+    expect(await ai.summarize(makeSnapshot())).to.equal('ok');
+    expect(auth).to.equal(undefined);
+  });
+
+  it('prefers the API key from secret storage over the setting', async () => {
+    let auth: string | undefined;
+    handler = (req, _body, res) => {
+      auth = req.headers.authorization;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { content: 'ok' } }] }));
+    };
+    settings.openaiApiKey = 'sk-setting';
+    const secrets = { get: (key: string) => Promise.resolve(key === 'persistentContext.openaiApiKey' ? 'sk-secret' : undefined) };
+
+    const ai = new AIService('/tmp/demo', undefined, new CredentialStore(secrets as any));
+    expect(await ai.summarize(makeSnapshot())).to.equal('ok');
+    expect(auth).to.equal('Bearer sk-secret');
+  });
+
+  it('reports HTTP errors through getLastError', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(500);
+      res.end('model not loaded');
+    };
+
+    const ai = new AIService('/tmp/demo');
+    const summary = await ai.summarize(makeSnapshot());
+
+    expect(summary).to.equal(null);
+    expect(ai.hasError()).to.equal(true);
+    expect(ai.getLastError()).to.include('500').and.include('model not loaded');
+    expect(ai.getProviderName()).to.equal('none');
+    expect(ai.getFailedProviderNames()).to.deep.equal([`OpenAI-compatible (${baseUrl})`]);
+  });
+
+  it('reports timeouts through getLastError', async () => {
+    handler = (_req, _body, res) => {
+      setTimeout(() => res.end(), 1500);
+    };
+
+    const ai = new AIService('/tmp/demo');
+    const summary = await ai.summarize(makeSnapshot());
+
+    expect(summary).to.equal(null);
+    expect(ai.getLastError()).to.include('timeout');
+  });
+});
+
+describe('AIService (provider fallback chain)', () => {
+  let failing: http.Server;
+  let ollama: http.Server;
+  let working: http.Server;
+  let failingHits = 0;
+  let ollamaReply: { status: number; body: object } = { status: 200, body: { response: 'from ollama' } };
+  let settings: Record<string, any>;
+  let workingUrl: string;
+  let originalGetConfiguration: typeof vscode.workspace.getConfiguration;
+
+  const listen = (server: http.Server) =>
+    new Promise<string>((resolve) =>
+      server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))
+    );
+
+  before(async () => {
+    originalGetConfiguration = vscode.workspace.getConfiguration;
+    failing = http.createServer((_req, res) => {
+      failingHits++;
+      res.writeHead(503);
+      res.end('unavailable');
+    });
+    ollama = http.createServer((_req, res) => {
+      res.writeHead(ollamaReply.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(ollamaReply.body));
+    });
+    working = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { content: 'from openai' } }] }));
+    });
+    const failingUrl = await listen(failing);
+    const ollamaUrl = await listen(ollama);
+    workingUrl = await listen(working);
+    settings = {
+      aiProvider: 'auto',
+      aiProviderChain: ['openai', 'copilot', 'ollama'],
+      openaiBaseUrl: `${failingUrl}/v1`,
+      ollamaEndpoint: ollamaUrl,
+    };
+    (vscode.workspace as any).getConfiguration = () => ({
+      get: (key: string, defaultValue?: any) => (key in settings ? settings[key] : defaultValue),
+    });
+  });
+
+  after(async () => {
+    (vscode.workspace as any).getConfiguration = originalGetConfiguration;
+    await new Promise((resolve) => failing.close(resolve));
+    await new Promise((resolve) => ollama.close(resolve));
+    await new Promise((resolve) => working.close(resolve));
+  });
+
+  it('falls back to the next provider and cools down the failed one', async () => {
+    const ai = new AIService('/tmp/demo');
+    // copilot is skipped because vscode.lm is unavailable in tests
+    expect(ai.getProviderHealth().map((h) => h.id)).to.deep.equal(['openai', 'ollama']);
+
+    expect(await ai.summarize(makeSnapshot())).to.equal('from ollama');
+    expect(ai.getProviderName()).to.equal('Ollama (Local)');
+    expect(ai.hasError()).to.equal(false);
+
+    const [openaiHealth] = ai.getProviderHealth();
+    expect(openaiHealth.consecutiveFailures).to.equal(1);
+    expect(openaiHealth.lastError).to.include('503');
+    expect(openaiHealth.cooldownUntil!.getTime()).to.be.greaterThan(Date.now());
+
+    expect(await ai.summarize(makeSnapshot())).to.equal('from ollama');
+    expect(failingHits).to.equal(1);
+  });
+
+  it('falls back when Ollama answers with an error status or an empty response', async () => {
+    settings.aiProviderChain = ['ollama', 'openai'];
+    settings.openaiBaseUrl = `${workingUrl}/v1`;
+
+    ollamaReply = { status: 500, body: { error: 'model "neural-chat" not found' } };
+    let ai = new AIService('/tmp/demo');
+    expect(await ai.summarize(makeSnapshot())).to.equal('from openai');
+    expect(ai.getProviderHealth()[0].lastError).to.include('500').and.include('not found');
+
+    ollamaReply = { status: 200, body: { response: '' } };
+    ai = new AIService('/tmp/demo');
+    expect(await ai.summarize(makeSnapshot())).to.equal('from openai');
+    expect(ai.getProviderHealth()[0].lastError).to.include('Empty response');
+  });
+});
@@ -0,0 +1,41 @@
+import { expect } from 'chai';
+import { BriefingBuilder, CharTokenEstimator, WordTokenEstimator } from '../services/briefingBuilder';
+
+describe('BriefingBuilder', () => {
+  const lines = (prefix: string, count: number) =>
+    Array.from({ length: count }, (_, i) => `${prefix} line ${i} with some padding text`).join('\n');
+
+  it('includes everything when the budget is unlimited', () => {
+    const result = new BriefingBuilder().build('# Intro\n\n', [
+      { title: 'Summary', content: lines('summary', 50) },
+      { title: 'Session: A', content: lines('session', 50) },
+    ], 0);
+
+    expect(result.included).to.deep.equal(['Summary', 'Session: A']);
+    expect(result.omitted).to.deep.equal([]);
+    expect(result.text).not.to.include('Omitted From This Briefing');
+  });
+
+  it('keeps higher-priority sections, truncates and omits the rest and reports it', () => {
+    const result = new BriefingBuilder().build('# Intro\n\n', [
+      { title: 'Summary', content: lines('summary', 10) },
+      { title: 'Decisions', content: lines('decision', 100), truncatable: true },
+      { title: 'Session: Old', content: lines('session', 20) },
+    ], 600);
+
+    expect(result.included).to.deep.equal(['Summary']);
+    expect(result.truncated).to.deep.equal(['Decisions']);
+    expect(result.omitted).to.deep.equal(['Session: Old']);
+    expect(result.text).to.include('summary line 9');
+    expect(result.text).to.include('decision line 0');
+    expect(result.text).not.to.include('decision line 99');
+    expect(result.text).to.include('- Truncated: Decisions');
+    expect(result.text).to.include('- Omitted: Session: Old');
+    expect(result.tokens).to.be.at.most(600);
+  });
+
+  it('supports pluggable token estimators', () => {
+    expect(new CharTokenEstimator().estimate('abcdefgh')).to.equal(2);
+    expect(new WordTokenEstimator().estimate('one two three')).to.equal(4);
+  });
+});
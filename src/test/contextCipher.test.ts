@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContextCipher, ENCRYPTION_INFO_FILE } from '../services/contextCipher';
+import { FileService } from '../services/fileService';
+import { SessionStore } from '../services/sessionStore';
+
+describe('ContextCipher', () => {
+  const root = path.join(process.cwd(), '.test-temp', 'cipher');
+  const dir = path.join(root, 'app-12345678');
+
+  afterEach(() => {
+    if (fs.existsSync(root)) fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('round-trips text and rejects a wrong key', () => {
+    const cipher = new ContextCipher(ContextCipher.generateKey());
+    const encrypted = cipher.encrypt('# Active Context\nrefund flow');
+    expect(ContextCipher.isEncrypted(encrypted)).to.equal(true);
+    expect(encrypted).to.not.include('refund');
+    expect(cipher.decrypt(encrypted)).to.equal('# Active Context\nrefund flow');
+
+    const other = new ContextCipher(ContextCipher.generateKey());
+    expect(() => other.decrypt(encrypted)).to.throw('wrong key');
+    const info = cipher.createInfo('secretStorage');
+    expect(cipher.matches(info)).to.equal(true);
+    expect(other.matches(info)).to.equal(false);
+  });
+
+  it('derives the same key from the same passphrase and salt', () => {
+    const salt = Buffer.from('0123456789abcdef');
+    const info = ContextCipher.fromPassphrase('correct horse', salt).createInfo('passphrase', salt);
+    expect(ContextCipher.fromPassphrase('correct horse', Buffer.from(info.salt!, 'base64')).matches(info)).to.equal(true);
+    expect(ContextCipher.fromPassphrase('wrong horse', salt).matches(info)).to.equal(false);
+  });
+
+  it('encrypts files on disk through FileService and reads them transparently', () => {
+    const cipher = new ContextCipher(ContextCipher.generateKey());
+    const fileService = new FileService(dir, cipher);
+    fileService.writeFile('activeContext.md', 'secret plans');
+    fileService.appendFile('activeContext.md', 'more plans');
+    fileService.writeFile('.workspace-info', '/home/me/app');
+
+    expect(fs.readFileSync(path.join(dir, 'activeContext.md'), 'utf-8')).to.match(/^PCENC1:/);
+    expect(fileService.readFile('activeContext.md')).to.equal('secret plans\nmore plans');
+    expect(fs.readFileSync(path.join(dir, '.workspace-info'), 'utf-8')).to.equal('/home/me/app');
+
+    // Without the key, reads fail instead of looking empty
+    const locked = new FileService(dir);
+    expect(() => locked.readFile('activeContext.md')).to.throw('not unlocked');
+    fileService.writeFile('sessions.json', JSON.stringify({ version: 1, currentSessionId: null, sessions: [] }));
+    expect(() => new SessionStore(locked).list()).to.throw('not unlocked');
+  });
+
+  it('encrypts and decrypts an existing directory, leaving plain-text metadata alone', () => {
+    fs.mkdirSync(path.join(dir, 'snapshots'), { recursive: true });
+    fs.mkdirSync(path.join(root, '.git'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'progress.md'), '# Progress', 'utf-8');
+    fs.writeFileSync(path.join(dir, 'snapshots', '1.json'), '{}', 'utf-8');
+    fs.writeFileSync(path.join(dir, 'promptTemplate.md'), 'template', 'utf-8');
+    fs.writeFileSync(path.join(dir, '.workspace-info'), '/home/me/app', 'utf-8');
+    fs.writeFileSync(path.join(root, '.git', 'HEAD'), 'ref: refs/heads/main', 'utf-8');
+    fs.writeFileSync(path.join(root, '.gitignore'), 'snapshots/\n', 'utf-8');
+    fs.writeFileSync(path.join(dir, '.gitignore'), '*.tmp\n', 'utf-8');
+    fs.mkdirSync(path.join(root, 'notes'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'notes', 'todo.md'), 'not a workspace', 'utf-8');
+
+    const cipher = new ContextCipher(ContextCipher.generateKey());
+    ContextCipher.writeInfo(root, cipher.createInfo('secretStorage'));
+    expect(cipher.transformDirectory(root, 'encrypt')).to.equal(2);
+    expect(cipher.transformDirectory(root, 'encrypt')).to.equal(0);
+    expect(fs.readFileSync(path.join(dir, 'progress.md'), 'utf-8')).to.match(/^PCENC1:/);
+    expect(fs.readFileSync(path.join(dir, 'promptTemplate.md'), 'utf-8')).to.equal('template');
+    expect(fs.readFileSync(path.join(root, '.git', 'HEAD'), 'utf-8')).to.equal('ref: refs/heads/main');
+    expect(fs.readFileSync(path.join(root, '.gitignore'), 'utf-8')).to.equal('snapshots/\n');
+    expect(fs.readFileSync(path.join(dir, '.gitignore'), 'utf-8')).to.equal('*.tmp\n');
+    expect(fs.readFileSync(path.join(root, 'notes', 'todo.md'), 'utf-8')).to.equal('not a workspace');
+    expect(cipher.matches(ContextCipher.readInfo(root)!)).to.equal(true);
+
+    expect(cipher.transformDirectory(root, 'decrypt')).to.equal(2);
+    ContextCipher.writeInfo(root, undefined);
+    expect(fs.readFileSync(path.join(dir, 'snapshots', '1.json'), 'utf-8')).to.equal('{}');
+    expect(fs.existsSync(path.join(root, ENCRYPTION_INFO_FILE))).to.equal(false);
+  });
+});
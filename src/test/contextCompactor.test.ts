@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileService } from '../services/fileService';
+import { ContextCompactor } from '../services/contextCompactor';
+
+describe('ContextCompactor', () => {
+  const dir = path.join(process.cwd(), '.test-temp', 'compactor');
+  let fileService: FileService;
+
+  const update = (timestamp: string, branch: string, change: string) => `
+## Update: ${timestamp}
+
+**Status:** In progress
+**Branch:** ${branch}
+**AI Provider:** none
+
+### What Changed
+${change}
+
+### Current Work
+- Session: Payments
+
+### Recent Commits
+- abc12345: init
+
+---
+`;
+
+  beforeEach(() => {
+    fs.mkdirSync(dir, { recursive: true });
+    fileService = new FileService(dir);
+    const content =
+      '# Project Context - Payments\n\nThis file tracks the evolution of the project. New updates are appended below.\n\n---\n\n' +
+      update('2024-01-01T09:00:00', 'main', '- Opened: a.ts') +
+      '\n- Note (Jan 1): remember webhooks\n' +
+      update('2024-01-02T09:00:00', 'main', '- Opened: b.ts') +
+      update('2024-01-02T10:00:00', 'feature/x', '- Switched branch: main → feature/x') +
+      update('2024-01-03T09:00:00', 'feature/x', '- Opened: c.ts') +
+      update('2024-01-03T10:00:00', 'feature/x', '- Opened: d.ts');
+    fileService.writeFile('activeContext.md', content);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the latest updates, folds older ones into daily digests and archives the rest', async () => {
+    const compactor = new ContextCompactor(fileService, undefined, { keepUpdates: 2, keepDigests: 1, useAI: false });
+
+    const result = await compactor.compact();
+    expect(result).to.deep.equal({ foldedUpdates: 3, archivedDigests: 1 });
+
+    const active = fileService.readFile('activeContext.md');
+    const parsed = ContextCompactor.parse(active);
+    expect(active.startsWith('# Project Context - Payments')).to.equal(true);
+    expect(parsed.updates.map((u) => u.date)).to.deep.equal(['2024-01-03', '2024-01-03']);
+    expect(parsed.digests.map((d) => d.date)).to.deep.equal(['2024-01-02']);
+    expect(active).to.include('## Digest: 2024-01-02 (2 updates)');
+    expect(active).to.include('**Branches:** main, feature/x');
+    expect(active).to.include('- Switched branch: main → feature/x');
+
+    const archive = fileService.readFile('archive/activeContext-2024-01.md');
+    expect((archive.match(/## Update:/g) || []).length).to.equal(3);
+    expect(archive).to.include('## Digest: 2024-01-01 (1 update)');
+    expect(archive).to.include('- Note (Jan 1): remember webhooks');
+  });
+
+  it('merges newly folded updates into an existing digest for the same day', async () => {
+    const compactor = new ContextCompactor(fileService, undefined, { keepUpdates: 4, keepDigests: 5, useAI: false });
+    await compactor.compact();
+    compactor.setOptions({ keepUpdates: 1, keepDigests: 5, useAI: false });
+    await compactor.compact();
+
+    const active = fileService.readFile('activeContext.md');
+    expect(active).to.include('## Digest: 2024-01-01 (1 update)');
+    expect(active).to.include('## Digest: 2024-01-02 (2 updates)');
+    expect(active).to.include('## Digest: 2024-01-03 (1 update)');
+    expect(ContextCompactor.parse(active).updates).to.have.length(1);
+  });
+
+  it('compactIfNeeded waits until twice the keep limit is reached', async () => {
+    const compactor = new ContextCompactor(fileService, undefined, { keepUpdates: 3, keepDigests: 5, useAI: false });
+    expect(await compactor.compactIfNeeded()).to.equal(undefined);
+    compactor.setOptions({ keepUpdates: 2, keepDigests: 5, useAI: false });
+    expect(await compactor.compactIfNeeded()).to.deep.equal({ foldedUpdates: 3, archivedDigests: 0 });
+  });
+
+  it('groups updates by day when their headings are written in a non-US locale', async () => {
+    const toLocaleString = Date.prototype.toLocaleString;
+    Date.prototype.toLocaleString = function (this: Date) {
+      return toLocaleString.call(this, 'de-DE');
+    };
+    try {
+      const times = [new Date(2024, 0, 1, 9), new Date(2024, 0, 2, 9), new Date(2024, 0, 2, 18), new Date(2024, 0, 13, 9)];
+      const content = '# Project Context - Payments\n\n---\n' +
+        times.map((t) => `\n${ContextCompactor.heading('Update', t)}\n\n**Branch:** main\n\n---\n`).join('');
+      fileService.writeFile('activeContext.md', content);
+      expect(content).to.include('## Update: 13.1.2024, 09:00:00');
+
+      const compactor = new ContextCompactor(fileService, undefined, { keepUpdates: 1, keepDigests: 5, useAI: false });
+      expect(ContextCompactor.parse(content).updates.map((u) => u.date)).to.deep.equal(['2024-01-01', '2024-01-02', '2024-01-02', '2024-01-13']);
+      await compactor.compact();
+      const active = fileService.readFile('activeContext.md');
+      expect(active).to.include('## Digest: 2024-01-02 (2 updates)');
+      expect(active).to.not.include('undated');
+      expect(fileService.fileExists('archive/activeContext-2024-01.md')).to.equal(true);
+    } finally {
+      Date.prototype.toLocaleString = toLocaleString;
+    }
+  });
+});
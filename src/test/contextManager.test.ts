@@ -4,6 +4,9 @@ import * as path from 'path';
 import { ContextManager } from '../services/contextManager';
 import * as crypto from 'crypto';
 import * as vscode from 'vscode';
+import { ContextCipher } from '../services/contextCipher';
+import { POLICY_FILE } from '../services/workspacePolicy';
+import { makeSnapshot } from './fixtures/snapshot';
 
 describe('ContextManager', () => {
   const tempRoot = path.join(process.cwd(), '.test-temp', 'cm');
@@ -69,4 +72,198 @@ describe('ContextManager', () => {
       cm.dispose();
     }
   });
+
+  it('mergeSessions keeps the sources and unmergeSession restores them', () => {
+    const ctxDir = contextDirFor(tempRoot);
+    fs.rmSync(ctxDir, { recursive: true, force: true });
+    fs.mkdirSync(ctxDir, { recursive: true });
+    fs.writeFileSync(path.join(ctxDir, 'progress.md'), `\n## Session: A\n- ID: 111\n\n## Session: B\n- ID: 222\n`, 'utf-8');
+
+    const cm = new ContextManager(tempRoot);
+    try {
+      cm.mergeSessions();
+      const merged = cm.getCurrentSession()!;
+      expect(merged.mergedFrom).to.deep.equal(['111', '222']);
+      const sourceStarts = ['111', '222'].map(id => cm.getSession(id)!.startTime.getTime());
+      expect(merged.startTime.getTime()).to.equal(Math.min(...sourceStarts));
+      expect(cm.getSession('111')!.mergedInto).to.equal(merged.id);
+      expect(fs.readFileSync(path.join(ctxDir, 'progress.md'), 'utf-8')).to.include('### Merged From');
+      expect(fs.existsSync(path.join(ctxDir, merged.mergeBackup!))).to.equal(true);
+
+      expect(cm.unmergeSession()).to.deep.equal(['A', 'B']);
+      expect(cm.isSessionActive()).to.equal(false);
+      expect(cm.getSession(merged.id)).to.equal(undefined);
+      expect(cm.getSessionNames()).to.deep.equal(['B', 'A']);
+      expect(cm.getSession('111')!.mergedInto).to.equal(undefined);
+    } finally {
+      cm.dispose();
+    }
+  });
+
+  it('deleteSession removes a merged session and shows its sources again', () => {
+    const ctxDir = contextDirFor(tempRoot);
+    fs.rmSync(ctxDir, { recursive: true, force: true });
+    fs.mkdirSync(ctxDir, { recursive: true });
+    fs.writeFileSync(path.join(ctxDir, 'progress.md'), `\n## Session: A\n- ID: 111\n\n## Session: B\n- ID: 222\n`, 'utf-8');
+
+    const cm = new ContextManager(tempRoot);
+    try {
+      cm.addNote('Check the retry budget', '111');
+      expect(cm.getSession('111')!.noteEntries!.map(n => n.text)).to.deep.equal(['Check the retry budget']);
+
+      cm.mergeSessions(['111', '222']);
+      const merged = cm.getCurrentSession()!;
+      expect(cm.deleteSession(merged.id)).to.equal(merged.name);
+      expect(cm.isSessionActive()).to.equal(false);
+      expect(cm.getSessionNames()).to.have.members(['A', 'B']);
+      expect(fs.readdirSync(path.join(ctxDir, 'backups'))).to.have.length(2);
+      expect(cm.deleteSession('missing')).to.equal(undefined);
+    } finally {
+      cm.dispose();
+    }
+  });
+
+  it('pauses and resumes a session without changing its id', () => {
+    const ctxDir = contextDirFor(tempRoot);
+    fs.rmSync(ctxDir, { recursive: true, force: true });
+
+    const cm = new ContextManager(tempRoot);
+    try {
+      cm.startSession('Payments');
+      const id = cm.getCurrentSession()!.id;
+      expect(cm.pauseSession()).to.equal('Payments');
+      expect(cm.isSessionActive()).to.equal(false);
+      expect(cm.getSession(id)!.pausedAt).to.be.instanceOf(Date);
+    } finally {
+      cm.dispose();
+    }
+
+    // A new window picks the paused session up by id
+    const reopened = new ContextManager(tempRoot);
+    try {
+      expect(reopened.resumeSession()).to.equal('Payments');
+      const session = reopened.getCurrentSession()!;
+      expect(session.pausedAt).to.equal(undefined);
+      expect(reopened.getSessions().map(s => s.id)).to.deep.equal([session.id]);
+      expect(fs.readFileSync(path.join(ctxDir, 'progress.md'), 'utf-8')).to.include('**Active Time:**');
+    } finally {
+      reopened.dispose();
+    }
+  });
+
+  it('switches to the session bound to a branch when sessionPerBranch is on', () => {
+    const ctxDir = contextDirFor(tempRoot);
+    fs.rmSync(ctxDir, { recursive: true, force: true });
+    const getConfiguration = vscode.workspace.getConfiguration;
+    (vscode.workspace as any).getConfiguration = () => ({
+      get: (key: string, defaultValue?: any) =>
+        key === 'storageDirectory' ? tempRoot : key === 'sessionPerBranch' ? true : defaultValue,
+    });
+
+    const cm = new ContextManager(tempRoot);
+    try {
+      cm.checkBranch('feature/refunds');
+      cm.startSession('Feature work');
+      const featureId = cm.getCurrentSession()!.id;
+
+      expect(cm.checkBranch('hotfix/PAY-7')).to.equal(true);
+      expect(cm.getCurrentSessionName()).to.equal('hotfix/PAY-7');
+      expect(cm.getCurrentSession()!.boundBranch).to.equal('hotfix/PAY-7');
+      expect((cm as any).activeContextFile).to.equal('activeContext.hotfix-PAY-7.md');
+      expect(cm.getSession(featureId)!.pausedAt).to.be.instanceOf(Date);
+
+      // Switching back resumes the original session rather than starting a new one
+      expect(cm.checkBranch('feature/refunds')).to.equal(true);
+      expect(cm.getCurrentSession()!.id).to.equal(featureId);
+      expect(cm.checkBranch('feature/refunds')).to.equal(false);
+    } finally {
+      cm.dispose();
+      (vscode.workspace as any).getConfiguration = getConfiguration;
+    }
+  });
+
+  it('rolling summary skips unchanged snapshots and replaces the summary block', async () => {
+    const ctxDir = contextDirFor(tempRoot);
+    fs.rmSync(ctxDir, { recursive: true, force: true });
+
+    const cm = new ContextManager(tempRoot);
+    try {
+      await (cm as any).saveActiveContext();
+      const first = fs.readFileSync(path.join(ctxDir, 'activeContext.md'), 'utf-8');
+      expect((first.match(/## Update:/g) || []).length).to.equal(1);
+      expect((first.match(/## Current Summary/g) || []).length).to.equal(1);
+      expect(fs.existsSync(path.join(ctxDir, 'summaryState.json'))).to.equal(true);
+
+      await (cm as any).saveActiveContext();
+      const unchanged = fs.readFileSync(path.join(ctxDir, 'activeContext.md'), 'utf-8');
+      expect((unchanged.match(/## Update:/g) || []).length).to.equal(1);
+      expect(fs.readdirSync(path.join(ctxDir, 'snapshots'))).to.have.length(1);
+
+      await (cm as any).saveActiveContext(true);
+      const forced = fs.readFileSync(path.join(ctxDir, 'activeContext.md'), 'utf-8');
+      expect((forced.match(/## Update:/g) || []).length).to.equal(2);
+      expect((forced.match(/## Current Summary/g) || []).length).to.equal(1);
+      expect(forced).to.include('- No workspace changes');
+      expect(fs.readdirSync(path.join(ctxDir, 'snapshots'))).to.have.length(2);
+    } finally {
+      cm.dispose();
+    }
+  });
+
+  it('keeps the previous summary baseline when no AI summary comes back', async () => {
+    const ctxDir = contextDirFor(tempRoot);
+    fs.rmSync(ctxDir, { recursive: true, force: true });
+
+    const cm = new ContextManager(tempRoot);
+    try {
+      await (cm as any).saveActiveContext();
+      const statePath = path.join(ctxDir, 'summaryState.json');
+      const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+      state.summary = 'Earlier summary';
+      state.snapshot.git.branch = 'old-branch';
+      fs.writeFileSync(statePath, JSON.stringify(state), 'utf-8');
+
+      await (cm as any).saveActiveContext(true);
+      const after = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+      expect(after.summary).to.equal('Earlier summary');
+      expect(after.snapshot.git.branch).to.equal('old-branch');
+      expect(fs.readFileSync(path.join(ctxDir, 'activeContext.md'), 'utf-8')).to.include('Earlier summary');
+    } finally {
+      cm.dispose();
+    }
+  });
+
+  it('keeps decisions in AI prompts once the storage is encrypted', () => {
+    const cm = new ContextManager(tempRoot);
+    try {
+      cm.setCipher(new ContextCipher(ContextCipher.generateKey()));
+      cm.addDecision({ title: 'Use Postgres', context: 'Need SQL', decision: 'Adopt Postgres', consequences: 'Migrations' });
+
+      expect(fs.readFileSync(path.join(contextDirFor(tempRoot), 'decisions.md'), 'utf-8')).to.match(/^PCENC1:/);
+      expect(cm.getAIService().promptBuilder.build(makeSnapshot())).to.include('Use Postgres (accepted');
+    } finally {
+      cm.setCipher(undefined);
+      cm.dispose();
+    }
+  });
+
+  it('starts no sessions and writes no notes while the workspace opts out of tracking', () => {
+    const workspaceRoot = path.join(tempRoot, 'opted-out');
+    fs.mkdirSync(workspaceRoot, { recursive: true });
+    fs.writeFileSync(path.join(workspaceRoot, POLICY_FILE), JSON.stringify({ enableTracking: false }), 'utf-8');
+
+    const cm = new ContextManager(workspaceRoot);
+    try {
+      cm.startSession('Secret work');
+      cm.addNote('customer list is in /tmp');
+      expect(cm.addDecision({ title: 'Use Postgres', context: '', decision: 'Adopt Postgres', consequences: '' })).to.equal(undefined);
+      cm.viewDecisions();
+      cm.editPromptTemplate();
+      expect(cm.isSessionActive()).to.equal(false);
+      expect(cm.resumeSession('Secret work')).to.equal(undefined);
+      expect(fs.existsSync(contextDirFor(workspaceRoot))).to.equal(false);
+    } finally {
+      cm.dispose();
+    }
+  });
 });
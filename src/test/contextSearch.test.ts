@@ -0,0 +1,121 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContextSearch, Embedder } from '../services/contextSearch';
+
+describe('ContextSearch', () => {
+  const root = path.join(process.cwd(), '.test-temp', 'search');
+  const dirA = path.join(root, 'alpha-11111111');
+  const dirB = path.join(root, 'beta-22222222');
+
+  beforeEach(() => {
+    fs.mkdirSync(path.join(dirA, 'archive'), { recursive: true });
+    fs.mkdirSync(dirB, { recursive: true });
+    fs.writeFileSync(
+      path.join(dirA, 'activeContext.md'),
+      '# Project Context\n\n## Update: 1/1/2026\n\n### What Changed\n- Modified: src/webhooks.ts\n\n## Update: 1/2/2026\n\nRefund rounding fixed\n',
+      'utf-8'
+    );
+    fs.writeFileSync(path.join(dirA, 'archive', 'activeContext-2025-12.md'), '## Update: 12/1/2025\n\nWebhook retries flaky\n', 'utf-8');
+    fs.writeFileSync(path.join(dirA, 'promptTemplate.md'), 'Summarize webhooks', 'utf-8');
+    fs.writeFileSync(path.join(dirB, 'progress.md'), '## Session: Payments\n- ID: 1\n**Notes:** webhook signature checks\n', 'utf-8');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(root)) fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('indexes sections across context directories and ranks keyword matches', async () => {
+    const search = new ContextSearch();
+    search.refresh([dirA, dirB]);
+
+    const results = await search.search('webhook retries');
+    expect(results[0].document.title).to.equal('Update: 12/1/2025');
+    expect(results[0].document.filePath).to.equal(path.join(dirA, 'archive', 'activeContext-2025-12.md'));
+    expect(results.map((r) => r.document.workspace)).to.include('beta-22222222');
+    // Prompt templates are configuration, not context
+    expect(results.some((r) => r.document.filePath.endsWith('promptTemplate.md'))).to.equal(false);
+
+    const refund = await search.search('refund');
+    expect(refund).to.have.length(1);
+    expect(refund[0].document.line).to.equal(7);
+    expect(refund[0].snippet).to.include('Refund rounding fixed');
+  });
+
+  it('re-indexes changed files and drops deleted ones', async () => {
+    const search = new ContextSearch();
+    search.refresh([dirA, dirB]);
+    fs.writeFileSync(path.join(dirB, 'progress.md'), '## Session: Search\n- ID: 2\n**Notes:** inverted index\n', 'utf-8');
+    fs.rmSync(path.join(dirA, 'archive'), { recursive: true, force: true });
+    search.refresh([dirA, dirB]);
+
+    expect(await search.search('signature')).to.have.length(0);
+    expect(await search.search('inverted')).to.have.length(1);
+    expect(await search.search('retries')).to.have.length(0);
+  });
+
+  it('blends in embedding similarity and caches vectors', async () => {
+    let calls = 0;
+    // Toy embedder: "money" words point one way, everything else the other
+    const embedder: Embedder = {
+      name: 'test',
+      embed: async (text: string) => {
+        calls++;
+        return /refund|payment|money/i.test(text) ? [1, 0] : [0, 1];
+      },
+    };
+    const search = new ContextSearch(embedder);
+    search.refresh([dirA, dirB]);
+
+    const results = await search.search('money');
+    expect(results[0].document.text).to.include('Refund rounding fixed');
+    expect(fs.existsSync(path.join(dirA, 'embeddings.json'))).to.equal(true);
+
+    const firstRun = calls;
+    await search.search('money');
+    expect(calls - firstRun).to.equal(1);
+  });
+
+  it('stops embedding new sections once the search is cancelled', async () => {
+    const embedded: string[] = [];
+    const embedder: Embedder = {
+      name: 'test',
+      embed: async (text: string) => {
+        embedded.push(text);
+        return [1, 0];
+      },
+    };
+    const search = new ContextSearch(embedder);
+    search.refresh([dirA, dirB]);
+
+    const results = await search.search('refund', { isCancellationRequested: true });
+    // Only the query was embedded; sections keep their keyword ranking
+    expect(embedded).to.deep.equal(['refund']);
+    expect(results[0].document.text).to.include('Refund rounding fixed');
+    expect(fs.existsSync(path.join(dirA, 'embeddings.json'))).to.equal(false);
+  });
+
+  it('skips documents that fail to embed and caches the rest', async () => {
+    const embedded: string[] = [];
+    const embedder: Embedder = {
+      name: 'test',
+      embed: async (text: string) => {
+        embedded.push(text);
+        if (/retries/.test(text)) throw new Error('context length exceeded');
+        return /refund|payment|money/i.test(text) ? [1, 0] : [0, 1];
+      },
+    };
+    const search = new ContextSearch(embedder);
+    search.refresh([dirA, dirB]);
+
+    const results = await search.search('money');
+    expect(results[0].document.text).to.include('Refund rounding fixed');
+    expect(fs.existsSync(path.join(dirA, 'embeddings.json'))).to.equal(true);
+
+    embedded.length = 0;
+    await search.search('webhook');
+    // The query and the document that failed before
+    expect(embedded).to.have.length(2);
+    expect(embedded[1]).to.include('Webhook retries flaky');
+  });
+});
@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContextSync } from '../services/contextSync';
+import { ContextCompactor } from '../services/contextCompactor';
+
+describe('ContextSync', () => {
+  const root = path.join(process.cwd(), '.test-temp', 'sync');
+  const remote = path.join(root, 'remote.git');
+  const machineA = path.join(root, 'a');
+  const machineB = path.join(root, 'b');
+  const workspace = 'app-12345678';
+  const header = '# Project Context - Payments\n\nThis file tracks the evolution of the project. New updates are appended below.\n\n---\n';
+
+  const update = (time: Date, text: string) => `\n## Update: ${time.toLocaleString()}\n\n- ${text}\n\n---\n`;
+  const at = (hour: number) => new Date(2026, 2, 1, hour, 0, 0);
+  const write = (storage: string, file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(storage, workspace, file)), { recursive: true });
+    fs.writeFileSync(path.join(storage, workspace, file), content, 'utf-8');
+  };
+  const read = (storage: string, file: string) => fs.readFileSync(path.join(storage, workspace, file), 'utf-8');
+  const sessions = (...entries: Array<[string, number]>) =>
+    JSON.stringify({ version: 1, sessions: entries.map(([id, hour]) => ({ id, name: id, startTime: at(hour).toISOString() })) }, null, 2);
+
+  beforeEach(() => {
+    fs.mkdirSync(root, { recursive: true });
+    execFileSync('git', ['init', '-q', '--bare', remote]);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(root)) fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('versions the storage directory and syncs two machines through a remote', async function () {
+    this.timeout(20000);
+    const a = new ContextSync(machineA, { remote, branch: 'main' });
+    const b = new ContextSync(machineB, { remote, branch: 'main' });
+
+    write(machineA, 'activeContext.md', header + update(at(9), 'start refunds'));
+    write(machineA, 'sessions.json', sessions(['s1', 9]));
+    expect(await a.sync('test')).to.deep.include({ committed: true, pushed: true });
+
+    // A fresh machine pulls everything
+    expect(await b.sync('test')).to.deep.include({ pulled: true, pushed: true });
+    expect(read(machineB, 'activeContext.md')).to.equal(read(machineA, 'activeContext.md'));
+
+    // Both machines append to the same files
+    write(machineA, 'activeContext.md', read(machineA, 'activeContext.md') + update(at(11), 'A: webhooks'));
+    write(machineA, 'sessions.json', sessions(['s1', 9], ['s2', 11]));
+    write(machineB, 'activeContext.md', read(machineB, 'activeContext.md') + update(at(10), 'B: retries'));
+    write(machineB, 'sessions.json', sessions(['s1', 9], ['s3', 10]));
+    await a.sync('test');
+    const result = await b.sync('test');
+
+    expect(result.merged).to.have.members([`${workspace}/activeContext.md`, `${workspace}/sessions.json`]);
+    const merged = read(machineB, 'activeContext.md');
+    expect(merged.startsWith(header)).to.equal(true);
+    expect(merged.indexOf('start refunds')).to.be.lessThan(merged.indexOf('B: retries'));
+    expect(merged.indexOf('B: retries')).to.be.lessThan(merged.indexOf('A: webhooks'));
+    expect(JSON.parse(read(machineB, 'sessions.json')).sessions.map((s: any) => s.id)).to.deep.equal(['s1', 's3', 's2']);
+
+    await a.sync('test');
+    expect(read(machineA, 'activeContext.md')).to.equal(merged);
+    expect(execFileSync('git', ['status', '--porcelain'], { cwd: machineA, encoding: 'utf-8' })).to.equal('');
+  });
+
+  it('keeps machine-local files out of the repository, also in existing ones', async function () {
+    this.timeout(20000);
+    fs.mkdirSync(machineA, { recursive: true });
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: machineA, encoding: 'utf-8' });
+    git('init', '-q');
+    fs.writeFileSync(path.join(machineA, '.gitignore'), '*.tmp\n.DS_Store\n', 'utf-8');
+    write(machineA, 'snapshots/1.json', '{}');
+    git('add', '-A');
+    git('-c', 'user.name=t', '-c', 'user.email=t@localhost', 'commit', '-q', '-m', 'old version');
+
+    write(machineA, 'activeContext.md', header);
+    write(machineA, 'embeddings.json', '{}');
+    write(machineA, 'backups/sessions-1.json', '{}');
+    write(machineA, 'redactions.log', 'hit\n');
+    await new ContextSync(machineA, { branch: 'main' }).sync('test');
+
+    expect(git('ls-files').split('\n').filter(Boolean)).to.have.members(['.gitignore', `${workspace}/activeContext.md`]);
+    expect(read(machineA, 'snapshots/1.json')).to.equal('{}');
+    expect(git('status', '--porcelain')).to.equal('');
+  });
+
+  it('takes turns with other windows through a lock file in the storage root', async function () {
+    this.timeout(20000);
+    const sync = new ContextSync(machineA, { branch: 'main' });
+    write(machineA, 'activeContext.md', header);
+    fs.writeFileSync(path.join(machineA, '.sync.lock'), '4242', 'utf-8');
+
+    let error: Error | undefined;
+    await sync.sync('test').catch((e) => (error = e));
+    expect(error?.message).to.include('Another window is syncing');
+
+    // A lock left behind by a window that exited mid-sync expires
+    const old = new Date(Date.now() - 60 * 60 * 1000);
+    fs.utimesSync(path.join(machineA, '.sync.lock'), old, old);
+    expect(await sync.sync('test')).to.deep.include({ committed: true });
+    expect(fs.existsSync(path.join(machineA, '.sync.lock'))).to.equal(false);
+  });
+
+  it('orders merged entries by their stamped time in any locale', () => {
+    const toLocaleString = Date.prototype.toLocaleString;
+    Date.prototype.toLocaleString = function (this: Date) {
+      return toLocaleString.call(this, 'de-DE');
+    };
+    try {
+      const stamped = (time: Date, text: string) => `\n${ContextCompactor.heading('Update', time)}\n\n- ${text}\n\n---\n`;
+      const base = header + stamped(at(8), 'start');
+      const ours = base + stamped(at(12), 'ours');
+      const theirs = base + stamped(at(9), 'theirs early') + stamped(at(13), 'theirs late');
+
+      const merged = ContextSync.mergeEntries(base, ours, theirs);
+      const order = ['- start', '- theirs early', '- ours', '- theirs late'].map((line) => merged.indexOf(line));
+      expect(order).to.deep.equal([...order].sort((a, b) => a - b));
+      expect(order[0]).to.be.greaterThan(0);
+    } finally {
+      Date.prototype.toLocaleString = toLocaleString;
+    }
+  });
+
+  it('keeps entries removed on one side removed when merging', () => {
+    const base = header + update(at(8), 'old') + update(at(9), 'kept');
+    const ours = header + update(at(9), 'kept') + update(at(12), 'ours');
+    const theirs = base + update(at(10), 'theirs');
+
+    const merged = ContextSync.mergeEntries(base, ours, theirs);
+    expect(merged).to.not.include('- old');
+    expect(merged.match(/## Update/g)).to.have.length(3);
+    expect(merged.indexOf('- theirs')).to.be.lessThan(merged.indexOf('- ours'));
+  });
+
+  it('keeps the most recently updated rolling summary when both machines changed it', () => {
+    const summary = (time: Date, text: string) =>
+      `<!-- rolling-summary:start -->\n## Current Summary\n\n_Last updated: ${time.toLocaleString()} · AI Provider: none_\n\n${text}\n<!-- rolling-summary:end -->\n`;
+    const base = header + summary(at(8), 'Started refunds.') + update(at(8), 'old');
+    const ours = header + summary(at(11), 'Refunds done, on webhooks.') + update(at(8), 'old') + update(at(11), 'ours');
+    const theirs = header + summary(at(10), 'Refunds in review.') + update(at(8), 'old') + update(at(10), 'theirs');
+
+    const merged = ContextSync.mergeEntries(base, ours, theirs);
+    expect(merged.match(/## Current Summary/g)).to.have.length(1);
+    expect(merged).to.include('Refunds done, on webhooks.');
+    expect(merged).to.not.include('Refunds in review.');
+    expect(merged.indexOf('## Current Summary')).to.be.lessThan(merged.indexOf('- old'));
+    expect(merged.match(/## Update/g)).to.have.length(3);
+
+    const newer = header + summary(at(12), 'Webhooks shipped.') + update(at(8), 'old');
+    const remerged = ContextSync.mergeEntries(base, ours, newer);
+    expect(remerged.match(/## Current Summary/g)).to.have.length(1);
+    expect(remerged).to.include('Webhooks shipped.');
+    expect(remerged).to.include('- ours');
+  });
+});
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContextTimeline } from '../services/contextTimeline';
+import { SessionStore } from '../services/sessionStore';
+import { DecisionLog } from '../services/decisionLog';
+import { FileService } from '../services/fileService';
+import { ContextCompactor } from '../services/contextCompactor';
+import { TimelinePanel } from '../ui/timelinePanel';
+
+describe('ContextTimeline', () => {
+  const dir = path.join(process.cwd(), '.test-temp', 'timeline');
+  let fileService: FileService;
+
+  beforeEach(() => {
+    fs.mkdirSync(dir, { recursive: true });
+    fileService = new FileService(dir);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('interleaves sessions, notes, updates, decisions and loop iterations newest first', () => {
+    new SessionStore(fileService).save({
+      id: '1',
+      name: 'Refunds',
+      startTime: new Date(2026, 2, 1, 9, 0),
+      endTime: new Date(2026, 2, 1, 17, 0),
+      noteEntries: [{ timestamp: new Date(2026, 2, 1, 11, 0), text: 'Stripe webhooks need retries' }],
+      tags: ['payments'],
+    });
+    fileService.writeFile(
+      'activeContext.md',
+      `# Active Context\n\n## Update: ${new Date(2026, 2, 1, 10, 0).toLocaleString()}\n\n### What Changed\n- src/refunds.ts\n`
+    );
+    new DecisionLog(fileService).add({ title: 'Use idempotency keys', context: 'c', decision: 'Every refund call sends a key', consequences: 'x' });
+    fileService.writeFile(
+      'SHARED_TASK_NOTES.md',
+      `# Continuous Loop Notes\n\n## Iteration 1\n**Time:** ${new Date(2026, 2, 1, 12, 0).toLocaleString()}\n**Status:** ✅\n**Summary:** Added tests\n`
+    );
+
+    const events = new ContextTimeline(fileService).build();
+    const march = events.filter((e) => e.kind !== 'decision').map((e) => e.kind);
+    expect(march).to.deep.equal(['session', 'iteration', 'note', 'update', 'session']);
+    expect(events[0].kind).to.equal('decision');
+
+    const update = events.find((e) => e.kind === 'update')!;
+    expect(update).to.include({ file: 'activeContext.md', line: 2, detail: '- src/refunds.ts' });
+    const iteration = events.find((e) => e.kind === 'iteration')!;
+    expect(iteration).to.include({ title: 'Loop Iteration 1 ✅', detail: 'Added tests', file: 'SHARED_TASK_NOTES.md', line: 2 });
+    const decision = events[0];
+    expect(decision.title).to.equal('ADR-0001: Use idempotency keys (accepted)');
+    expect(fileService.readFile('decisions.md').split('\n')[decision.line!]).to.match(/^## ADR-0001:/);
+    const start = events[events.length - 1];
+    expect(start).to.include({ title: 'Session started: Refunds', detail: '#payments', file: 'progress.md' });
+    expect(fileService.readFile('progress.md').split('\n')[start.line!]).to.equal('## Session: Refunds');
+  });
+
+  it('places context updates at their stamped time whatever the heading locale', () => {
+    const toLocaleString = Date.prototype.toLocaleString;
+    Date.prototype.toLocaleString = function (this: Date) {
+      return toLocaleString.call(this, 'en-GB');
+    };
+    try {
+      const written = new Date(2026, 2, 5, 10, 0);
+      fileService.writeFile('activeContext.md', `# Active Context\n\n${ContextCompactor.heading('Update', written)}\n\n### What Changed\n- src/refunds.ts\n`);
+
+      const [update] = new ContextTimeline(fileService).build().filter((e) => e.kind === 'update');
+      expect(update.title).to.equal('Update: 05/03/2026, 10:00:00');
+      expect(update.time.getTime()).to.equal(written.getTime());
+    } finally {
+      Date.prototype.toLocaleString = toLocaleString;
+    }
+  });
+
+  it('groups loop iterations into runs where the numbering restarts', () => {
+    const iteration = (n: number, hour: number, status: string) =>
+      `## Iteration ${n}\n**Time:** ${new Date(2026, 2, 1, hour).toLocaleString()}\n**Status:** ${status}\n**PR:** #${n}\n**Summary:** Step ${n}\n\n`;
+    fileService.writeFile('SHARED_TASK_NOTES.md', `# Continuous Loop Notes\n\n${iteration(1, 9, '✅')}${iteration(2, 10, '❌')}${iteration(1, 14, '✅')}`);
+
+    const runs = new ContextTimeline(fileService).loopRuns();
+    expect(runs.map((r) => r.iterations.map((it) => it.number))).to.deep.equal([[1, 2], [1]]);
+    expect(runs[0].iterations[1]).to.include({ status: '❌', pr: '#2', summary: 'Step 2', line: 8 });
+    expect(runs[1].startTime.getHours()).to.equal(14);
+  });
+
+  it('escapes event text in the rendered panel', () => {
+    const html = TimelinePanel.html([{ kind: 'note', time: new Date(), title: '<img src=x onerror=alert(1)>' }], 'abc');
+    expect(html).to.not.include('<img');
+    expect(html).to.include('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).to.include("script-src 'nonce-abc'");
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import * as vscode from 'vscode';
+import { CredentialStore } from '../services/credentialStore';
+
+class FakeSecrets {
+  values = new Map<string, string>();
+  get(key: string) {
+    return Promise.resolve(this.values.get(key));
+  }
+  store(key: string, value: string) {
+    this.values.set(key, value);
+    return Promise.resolve();
+  }
+  delete(key: string) {
+    this.values.delete(key);
+    return Promise.resolve();
+  }
+}
+
+describe('CredentialStore', () => {
+  let originalGetConfiguration: typeof vscode.workspace.getConfiguration;
+  let globalSettings: Record<string, any>;
+  let workspaceSettings: Record<string, any>;
+  let folderSettings: Record<string, any>;
+
+  beforeEach(() => {
+    originalGetConfiguration = vscode.workspace.getConfiguration;
+    globalSettings = {};
+    workspaceSettings = {};
+    folderSettings = {};
+    (vscode.workspace as any).getConfiguration = (section: string, scope?: unknown) => ({
+      get: (key: string, defaultValue?: any) => workspaceSettings[key] ?? globalSettings[key] ?? defaultValue,
+      inspect: (key: string) => ({
+        key,
+        globalValue: globalSettings[key],
+        workspaceValue: workspaceSettings[key],
+        workspaceFolderValue: scope ? folderSettings[key] : undefined,
+      }),
+      update: (key: string, value: any, target: vscode.ConfigurationTarget) => {
+        const settings = target === vscode.ConfigurationTarget.Global
+          ? globalSettings
+          : target === vscode.ConfigurationTarget.WorkspaceFolder ? folderSettings : workspaceSettings;
+        if (value === undefined) delete settings[key]; else settings[key] = value;
+        return Promise.resolve();
+      },
+    });
+  });
+
+  afterEach(() => {
+    (vscode.workspace as any).getConfiguration = originalGetConfiguration;
+    (vscode.workspace as any).workspaceFolders = undefined;
+  });
+
+  it('reads secret storage first and falls back to settings', async () => {
+    const secrets = new FakeSecrets();
+    const store = new CredentialStore(secrets as any);
+    globalSettings.openaiApiKey = 'sk-from-settings';
+    expect(await store.get('openaiApiKey')).to.equal('sk-from-settings');
+
+    await store.set('openaiApiKey', 'sk-from-secrets');
+    expect(await store.get('openaiApiKey')).to.equal('sk-from-secrets');
+    expect(await store.isStored('githubToken')).to.equal(false);
+
+    await store.clear('openaiApiKey');
+    expect(await store.get('openaiApiKey')).to.equal('sk-from-settings');
+  });
+
+  it('moves plaintext settings into secret storage and removes them', async () => {
+    const secrets = new FakeSecrets();
+    const store = new CredentialStore(secrets as any);
+    globalSettings.openaiApiKey = 'sk-global';
+    workspaceSettings.openaiApiKey = 'sk-workspace';
+    globalSettings.githubToken = '';
+
+    expect(await store.migrateSettings()).to.deep.equal(['openaiApiKey']);
+    expect(secrets.values.get('persistentContext.openaiApiKey')).to.equal('sk-workspace');
+    expect(globalSettings).to.not.have.property('openaiApiKey');
+    expect(workspaceSettings).to.not.have.property('openaiApiKey');
+    expect(await store.migrateSettings()).to.deep.equal([]);
+  });
+
+  it('asks before replacing a stored credential and clears folder settings too', async () => {
+    const secrets = new FakeSecrets();
+    const store = new CredentialStore(secrets as any);
+    (vscode.workspace as any).workspaceFolders = [{ uri: { fsPath: '/work/app' } }];
+    await store.set('openaiApiKey', 'sk-stored');
+    folderSettings.openaiApiKey = 'sk-folder';
+    globalSettings.openaiApiKey = 'sk-global';
+    folderSettings.githubToken = 'ghp-folder';
+
+    const asked: string[] = [];
+    expect(await store.migrateSettings((id) => {
+      asked.push(id);
+      return Promise.resolve(undefined);
+    })).to.deep.equal(['githubToken']);
+    expect(asked).to.deep.equal(['openaiApiKey']);
+    expect(secrets.values.get('persistentContext.openaiApiKey')).to.equal('sk-stored');
+    expect(secrets.values.get('persistentContext.githubToken')).to.equal('ghp-folder');
+    expect(folderSettings).to.deep.equal({ openaiApiKey: 'sk-folder' });
+    expect(globalSettings).to.deep.equal({ openaiApiKey: 'sk-global' });
+
+    expect(await store.migrateSettings(() => Promise.resolve('stored'))).to.deep.equal([]);
+    expect(secrets.values.get('persistentContext.openaiApiKey')).to.equal('sk-stored');
+    expect(folderSettings).to.deep.equal({});
+    expect(globalSettings).to.deep.equal({});
+  });
+});
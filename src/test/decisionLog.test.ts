@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileService } from '../services/fileService';
+import { DecisionLog, DECISIONS_FILE } from '../services/decisionLog';
+
+describe('DecisionLog', () => {
+  const dir = path.join(process.cwd(), '.test-temp', 'decisions');
+  let fileService: FileService;
+
+  beforeEach(() => {
+    fs.mkdirSync(dir, { recursive: true });
+    fileService = new FileService(dir);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('numbers decisions and parses them back into typed records', () => {
+    const log = new DecisionLog(fileService);
+    log.add({ title: 'Use SQLite', context: 'Need local storage', decision: 'Store cache in SQLite', consequences: 'Native dependency' });
+    log.add({ title: 'Adopt ESLint', context: '', decision: 'Lint in CI', consequences: '', status: 'proposed' });
+
+    const [first, second] = new DecisionLog(fileService).list();
+    expect(first).to.include({ id: 1, title: 'Use SQLite', status: 'accepted', context: 'Need local storage' });
+    expect(first.decision).to.equal('Store cache in SQLite');
+    expect(second).to.include({ id: 2, status: 'proposed', context: '' });
+    expect(fileService.readFile(DECISIONS_FILE)).to.include('## ADR-0002: Adopt ESLint');
+  });
+
+  it('links superseded decisions and excludes them from the active set', () => {
+    const log = new DecisionLog(fileService);
+    log.add({ title: 'Use SQLite', context: '', decision: 'SQLite', consequences: '' });
+    const replacement = log.add({ title: 'Use PostgreSQL', context: '', decision: 'Postgres', consequences: '', supersedes: [1] });
+
+    expect(replacement.supersedes).to.deep.equal([1]);
+    expect(log.get(1)).to.include({ status: 'superseded', supersededBy: 2 });
+    expect(log.active().map((d) => d.id)).to.deep.equal([2]);
+    expect(log.formatActive()).to.include('ADR-0002 Use PostgreSQL');
+  });
+
+  it('adopts a legacy decisionLog.md without losing its text', () => {
+    fileService.writeFile('decisionLog.md', '# Decision Log\n\nWe chose tabs over spaces.\n');
+    const log = new DecisionLog(fileService);
+    log.add({ title: 'Use SQLite', context: '', decision: 'SQLite', consequences: '' });
+
+    const content = fileService.readFile(DECISIONS_FILE);
+    expect(content).to.include('We chose tabs over spaces.');
+    expect(log.list()).to.have.length(1);
+  });
+});
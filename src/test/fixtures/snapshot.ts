@@ -0,0 +1,16 @@
+import { ContextSnapshot } from '../../services/snapshotCollector';
+
+/**
+ * Build a minimal ContextSnapshot for tests; fields can be overridden per test.
+ */
+export const makeSnapshot = (overrides: Partial<ContextSnapshot> = {}): ContextSnapshot => ({
+  timestamp: new Date().toISOString(),
+  workspaceMetadata: { name: 'demo', rootPath: '/tmp/demo', mainLanguage: 'typescript' },
+  systemInfo: { targetPlatforms: ['linux'] },
+  vscodeContext: { requiredExtensions: [], projectSettings: {} },
+  projectStructure: { directories: ['src'], keyFiles: ['package.json'] },
+  git: { branch: 'main', recentCommits: [{ hash: 'abc12345', message: 'init' }], stagedFiles: [], modifiedFiles: [] },
+  openEditors: [],
+  deploymentContext: {},
+  ...overrides,
+});
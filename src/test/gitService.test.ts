@@ -0,0 +1,24 @@
+import { expect } from 'chai';
+import { GitService } from '../services/gitService';
+
+describe('GitService', () => {
+  it('extracts tracker keys and GitHub references from commit messages', () => {
+    expect(GitService.extractIssueIds('PAY-42: fix rounding (#118)')).to.deep.equal(['PAY-42', '#118']);
+    expect(GitService.extractIssueIds('Refactor parser')).to.deep.equal([]);
+    // Lower-case keys only count in branch names
+    expect(GitService.extractIssueIds('bump pay-42')).to.deep.equal([]);
+  });
+
+  it('does not mistake standards and encodings for tracker keys', () => {
+    expect(GitService.extractIssueIds('Read files as UTF-8 and hash with SHA-256')).to.deep.equal([]);
+    expect(GitService.extractIssueIds('Parse ISO-8601 dates for PAY-7')).to.deep.equal(['PAY-7']);
+    expect(GitService.extractIssueIds('Bump base image to X1-2 and A2B-3')).to.deep.equal([]);
+    expect(GitService.extractIssueIds('fix/utf-8-decoding', true)).to.deep.equal([]);
+  });
+
+  it('extracts issue ids from branch naming conventions', () => {
+    expect(GitService.extractIssueIds('feature/pay-42-refunds', true)).to.deep.equal(['PAY-42']);
+    expect(GitService.extractIssueIds('fix/118-crash-on-start', true)).to.deep.equal(['#118']);
+    expect(GitService.extractIssueIds('main', true)).to.deep.equal([]);
+  });
+});
@@ -16,6 +16,12 @@ export const workspace = {
   }),
 };
 
+export enum ConfigurationTarget {
+  Global = 1,
+  Workspace = 2,
+  WorkspaceFolder = 3,
+}
+
 export const window = {
   visibleTextEditors: [] as any[],
   showQuickPick: (items: any[], options?: any) =>
@@ -25,6 +31,7 @@ export const window = {
 };
 
 export const env = {
+  machineId: 'test-machine',
   clipboard: {
     writeText: (text: string) => Promise.resolve(),
   },
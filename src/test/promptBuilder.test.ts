@@ -0,0 +1,43 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PromptBuilder, PROMPT_TEMPLATE_FILE } from '../services/promptBuilder';
+import { FileService } from '../services/fileService';
+import { makeSnapshot } from './fixtures/snapshot';
+
+describe('PromptBuilder', () => {
+  const dir = path.join(process.cwd(), '.test-temp', 'prompt');
+
+  beforeEach(() => {
+    fs.mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('renders the default template from a snapshot', () => {
+    const prompt = new PromptBuilder(new FileService(dir)).build(
+      makeSnapshot({
+        openEditors: [{ path: '/tmp/demo/src/a.ts', language: 'typescript', lines: 12 }],
+        deploymentContext: { location: 'prod-1', isProduction: true },
+      })
+    );
+
+    expect(prompt).to.include('- Name: demo');
+    expect(prompt).to.include('- Branch: main');
+    expect(prompt).to.include('  - abc12345: init');
+    expect(prompt).to.include('- /tmp/demo/src/a.ts (typescript, 12 lines)');
+    expect(prompt).to.include('- Location: prod-1');
+    expect(prompt).to.include('- Environment: Production');
+    expect(prompt).not.to.match(/\{\{/);
+  });
+
+  it('uses a workspace template override and keeps unknown placeholders', () => {
+    fs.writeFileSync(path.join(dir, PROMPT_TEMPLATE_FILE), 'Summarize {{workspace.name}} on {{ git.branch }} {{nope}}', 'utf-8');
+
+    const prompt = new PromptBuilder(new FileService(dir)).build(makeSnapshot());
+
+    expect(prompt).to.equal('Summarize demo on main {{nope}}');
+  });
+});
@@ -0,0 +1,49 @@
+import { expect } from 'chai';
+import { SessionRetrospective, RetrospectiveInput } from '../services/sessionRetrospective';
+import { PromptBuilder } from '../services/promptBuilder';
+
+describe('SessionRetrospective', () => {
+  const input = (): RetrospectiveInput => ({
+    session: {
+      id: '1',
+      name: 'Refunds',
+      startTime: new Date(2026, 2, 1, 9),
+      endTime: new Date(2026, 2, 1, 11),
+      activeMs: 90 * 60 * 1000,
+      branches: ['feature/refunds'],
+    },
+    changes: ['- Modified: src/refunds.ts', '- Modified: src/refunds.ts'],
+    commits: ['abc1234 Add refund endpoint'],
+    notes: ['Webhook retries still flaky', 'Should refunds be idempotent?'],
+    chat: [],
+    pendingFiles: ['src/webhooks.ts'],
+  });
+
+  it('falls back to a deterministic retrospective without an AI provider', async () => {
+    const result = await new SessionRetrospective().write(input());
+
+    expect(result.source).to.equal('fallback');
+    expect(result.text).to.include('- Committed abc1234 Add refund endpoint');
+    expect((result.text.match(/Modified: src\/refunds\.ts/g) || []).length).to.equal(1);
+    expect(result.text).to.include('#### Left To Do\n- Uncommitted: src/webhooks.ts');
+    expect(result.text).to.include('#### Open Questions\n- Should refunds be idempotent?');
+  });
+
+  it('uses the AI response when a provider answers', async () => {
+    let prompt = '';
+    const aiService = {
+      promptBuilder: new PromptBuilder(),
+      complete: async (p: string) => {
+        prompt = p;
+        return '#### Done\n- Shipped refunds';
+      },
+    };
+
+    const result = await new SessionRetrospective(aiService as any).write(input());
+
+    expect(result).to.deep.equal({ text: '#### Done\n- Shipped refunds', source: 'ai' });
+    expect(prompt).to.include('- Name: Refunds');
+    expect(prompt).to.include('2h 00m (1h 30m active)');
+    expect(prompt).to.include('- abc1234 Add refund endpoint');
+  });
+});
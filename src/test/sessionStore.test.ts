@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileService } from '../services/fileService';
+import { SessionStore, SESSIONS_FILE, PROGRESS_FILE } from '../services/sessionStore';
+
+describe('SessionStore', () => {
+  const dir = path.join(process.cwd(), '.test-temp', 'sessions');
+  let fileService: FileService;
+
+  beforeEach(() => {
+    fs.mkdirSync(dir, { recursive: true });
+    fileService = new FileService(dir);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips sessions through sessions.json and regenerates progress.md', () => {
+    const store = new SessionStore(fileService);
+    const startTime = new Date('2026-03-01T09:00:00Z');
+    const endTime = new Date('2026-03-01T11:30:00Z');
+    store.save({
+      id: 's1',
+      name: 'Renamed ## heading',
+      startTime,
+      endTime,
+      notes: 'Shipped it',
+      noteEntries: [{ timestamp: new Date('2026-03-01T10:00:00Z'), text: 'Halfway' }],
+      updates: ['3/1/2026, 10:00:00 AM'],
+    });
+    store.save({ id: 's0', name: 'Earlier', startTime: new Date('2026-02-28T09:00:00Z') });
+
+    const reloaded = new SessionStore(fileService);
+    const session = reloaded.get('s1')!;
+    expect(session.startTime.getTime()).to.equal(startTime.getTime());
+    expect(session.endTime!.getTime()).to.equal(endTime.getTime());
+    expect(session.noteEntries![0].text).to.equal('Halfway');
+    expect(session.updates).to.deep.equal(['3/1/2026, 10:00:00 AM']);
+    expect(reloaded.list().map((s) => s.id)).to.deep.equal(['s0', 's1']);
+    expect(reloaded.latest()!.id).to.equal('s1');
+
+    const progress = fileService.readFile(PROGRESS_FILE);
+    expect(progress.indexOf('## Session: Earlier')).to.be.lessThan(progress.indexOf('## Session: Renamed'));
+    expect(progress).to.include('- ID: s1');
+    expect(progress).to.include('**Notes:** Shipped it');
+  });
+
+  it('imports a legacy progress.md with notes written before their session entry', () => {
+    fileService.writeFile(
+      PROGRESS_FILE,
+      '\n### Note for session Alpha (1/2/2026, 9:00:00 AM)\nCheck the cache\n' +
+        '\n## Session: Alpha\n- ID: 1767340800000\n**Date:** 1/2/2026, 8:00:00 AM\n**Notes:** Done\n' +
+        '\n## Session: Beta\n- ID: 1767427200000\n**Date:** 1/3/2026, 8:00:00 AM\n**Notes:** No notes\n'
+    );
+
+    const store = new SessionStore(fileService);
+    const [alpha, beta] = store.list();
+    expect(alpha).to.include({ id: '1767340800000', name: 'Alpha', notes: 'Done' });
+    expect(alpha.startTime.getTime()).to.equal(1767340800000);
+    expect(alpha.noteEntries!.map((n) => n.text)).to.deep.equal(['Check the cache']);
+    expect(beta.notes).to.equal(undefined);
+    expect(store.findByName('Beta')!.id).to.equal('1767427200000');
+    // Reading does not write the index; the first save does
+    expect(fileService.fileExists(SESSIONS_FILE)).to.equal(false);
+
+    store.remove(['1767340800000']);
+    expect(fileService.fileExists(SESSIONS_FILE)).to.equal(true);
+    expect(new SessionStore(fileService).list().map((s) => s.name)).to.deep.equal(['Beta']);
+  });
+
+  it('keeps the most recent backups and those merged sessions refer to', () => {
+    const store = new SessionStore(fileService);
+    const first = store.backup();
+    store.save({ id: 'm', name: 'Merged', startTime: new Date(), mergedFrom: ['a', 'b'], mergeBackup: first });
+    const later = Array.from({ length: 12 }, () => store.backup());
+
+    const kept = fs.readdirSync(path.join(dir, 'backups')).map((name) => `backups/${name}`);
+    expect(kept).to.have.members([first, ...later.slice(-10)]);
+    expect(store.loadBackup(first)).to.deep.equal([]);
+  });
+
+  it('filters sessions by tag, branch, issue and overlapping date range', () => {
+    const sessions = [
+      { id: 'a', name: 'A', startTime: new Date(2026, 2, 1, 9), endTime: new Date(2026, 2, 1, 17), tags: ['Payments'], branches: ['main'] },
+      { id: 'b', name: 'B', startTime: new Date(2026, 2, 3, 9), endTime: new Date(2026, 2, 4, 12), branches: ['fix/118-crash'], issues: ['#118'] },
+    ];
+
+    expect(SessionStore.filter(sessions, { tag: 'payments' }).map((s) => s.id)).to.deep.equal(['a']);
+    expect(SessionStore.filter(sessions, { branch: 'fix/118-crash' }).map((s) => s.id)).to.deep.equal(['b']);
+    expect(SessionStore.filter(sessions, { issue: '#118' }).map((s) => s.id)).to.deep.equal(['b']);
+    expect(SessionStore.filter(sessions, { from: new Date(2026, 2, 4), to: new Date(2026, 2, 5) }).map((s) => s.id)).to.deep.equal(['b']);
+    expect(SessionStore.filter(sessions, {}).length).to.equal(2);
+  });
+});
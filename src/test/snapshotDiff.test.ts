@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import { SnapshotDiffer } from '../services/snapshotDiff';
+import { makeSnapshot } from './fixtures/snapshot';
+
+describe('SnapshotDiffer', () => {
+  it('reports no changes for equivalent snapshots', () => {
+    const diff = SnapshotDiffer.diff(makeSnapshot(), makeSnapshot({ timestamp: 'later' }));
+    expect(SnapshotDiffer.isEmpty(diff)).to.equal(true);
+    expect(SnapshotDiffer.format(diff)).to.deep.equal([]);
+  });
+
+  it('detects editor, git and deployment changes', () => {
+    const prev = makeSnapshot({
+      openEditors: [{ path: '/tmp/demo/src/a.ts', language: 'typescript', lines: 1 }],
+      git: { branch: 'main', recentCommits: [{ hash: 'aaa', message: 'one' }], stagedFiles: ['old.ts'], modifiedFiles: [' M a.ts'] },
+      deploymentContext: { accessMethod: 'SSH' },
+    });
+    const next = makeSnapshot({
+      openEditors: [{ path: '/tmp/demo/src/b.ts', language: 'typescript', lines: 1 }],
+      git: {
+        branch: 'feature/x',
+        recentCommits: [{ hash: 'bbb', message: 'two' }, { hash: 'aaa', message: 'one' }],
+        stagedFiles: ['new.ts'],
+        modifiedFiles: [' M b.ts'],
+      },
+      deploymentContext: { accessMethod: 'Docker', isProduction: true },
+    });
+
+    const diff = SnapshotDiffer.diff(prev, next);
+
+    expect(diff.branchChanged).to.deep.equal({ from: 'main', to: 'feature/x' });
+    expect(diff.editorsOpened).to.deep.equal(['/tmp/demo/src/b.ts']);
+    expect(diff.editorsClosed).to.deep.equal(['/tmp/demo/src/a.ts']);
+    expect(diff.newCommits).to.deep.equal([{ hash: 'bbb', message: 'two' }]);
+    expect(diff.filesModified).to.deep.equal([' M b.ts']);
+    expect(diff.filesReverted).to.deep.equal([' M a.ts']);
+    expect(diff.filesStaged).to.deep.equal(['new.ts']);
+    expect(diff.filesUnstaged).to.deep.equal(['old.ts']);
+    expect(diff.deploymentChanges).to.deep.equal([
+      { field: 'accessMethod', from: 'SSH', to: 'Docker' },
+      { field: 'isProduction', from: undefined, to: true },
+    ]);
+
+    const lines = SnapshotDiffer.format(diff);
+    expect(lines).to.include('- Switched branch: main → feature/x');
+    expect(lines).to.include('- Opened: b.ts');
+    expect(lines).to.include('- Access Method: SSH → Docker');
+    expect(lines).to.include('- Production: (unset) → true');
+  });
+});
@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SnapshotStore, SNAPSHOT_SCHEMA_VERSION } from '../services/snapshotStore';
+import { makeSnapshot } from './fixtures/snapshot';
+
+describe('SnapshotStore', () => {
+  const dir = path.join(process.cwd(), '.test-temp', 'snapshots');
+
+  beforeEach(() => {
+    fs.mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves schema-versioned snapshots in chronological order', () => {
+    const store = new SnapshotStore(dir);
+    store.save(makeSnapshot({ timestamp: 'first' }));
+    store.save(makeSnapshot({ timestamp: 'second' }));
+
+    const files = store.list();
+    expect(files).to.have.length(2);
+    const first = store.load(files[0])!;
+    expect(first.schemaVersion).to.equal(SNAPSHOT_SCHEMA_VERSION);
+    expect(first.snapshot.timestamp).to.equal('first');
+    expect(store.latest()!.snapshot.timestamp).to.equal('second');
+  });
+
+  it('prunes snapshots beyond the retention count', () => {
+    const store = new SnapshotStore(dir, { maxCount: 2, maxAgeDays: 0 });
+    ['a', 'b', 'c'].forEach((timestamp) => store.save(makeSnapshot({ timestamp })));
+
+    const kept = store.list().map((f) => store.load(f)!.snapshot.timestamp);
+    expect(kept).to.deep.equal(['b', 'c']);
+  });
+
+  it('prunes snapshots older than the retention age', () => {
+    const store = new SnapshotStore(dir, { maxCount: 0, maxAgeDays: 1 });
+    const oldFile = store.save(makeSnapshot({ timestamp: 'old' }));
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    fs.utimesSync(path.join(store.getDirectory(), oldFile), twoDaysAgo, twoDaysAgo);
+
+    store.save(makeSnapshot({ timestamp: 'new' }));
+
+    expect(store.list().map((f) => store.load(f)!.snapshot.timestamp)).to.deep.equal(['new']);
+  });
+
+  it('ignores records with a newer schema version', () => {
+    const store = new SnapshotStore(dir);
+    fs.mkdirSync(store.getDirectory(), { recursive: true });
+    fs.writeFileSync(
+      path.join(store.getDirectory(), 'future.json'),
+      JSON.stringify({ schemaVersion: SNAPSHOT_SCHEMA_VERSION + 1, savedAt: '', snapshot: {} }),
+      'utf-8'
+    );
+    expect(store.load('future.json')).to.equal(undefined);
+  });
+});
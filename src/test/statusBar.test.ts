@@ -0,0 +1,27 @@
+import { expect } from 'chai';
+import { StatusBarManager } from '../ui/statusBar';
+
+describe('StatusBarManager', () => {
+  it('shows the session, active time, AI health, last autosave and loop state', () => {
+    const savedAt = new Date(2026, 2, 1, 10, 30);
+    const { text, tooltip } = StatusBarManager.render({
+      sessionName: 'Payments',
+      activeMs: 65 * 60 * 1000,
+      aiProvider: 'Ollama (Local)',
+      aiError: 'connect ECONNREFUSED',
+      lastSavedAt: savedAt,
+      loopRunning: true,
+    });
+    expect(text).to.equal('📚 Payments · 1h 05m $(sync~spin) $(warning)');
+    expect(tooltip).to.include('AI: Ollama (Local) - connect ECONNREFUSED');
+    expect(tooltip).to.include(`Last autosave: ${savedAt.toLocaleTimeString()}`);
+    expect(tooltip).to.include('Continuous loop running');
+  });
+
+  it('offers to start a session when none is active', () => {
+    const { text, tooltip } = StatusBarManager.render({ activeMs: 0, aiProvider: 'none', aiError: null, loopRunning: false });
+    expect(text).to.equal('▶️ Start Session');
+    expect(tooltip).to.include('AI: none - OK');
+    expect(tooltip).to.include('Last autosave: not yet');
+  });
+});
@@ -0,0 +1,105 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { WorkspacePolicy, POLICY_FILE } from '../services/workspacePolicy';
+import { ContextSnapshotCollector } from '../services/snapshotCollector';
+import { GitService } from '../services/gitService';
+import { AIService } from '../services/aiService';
+
+describe('WorkspacePolicy', () => {
+  const root = path.join(process.cwd(), '.test-temp', 'policy');
+  let settings: Record<string, any>;
+  let originalGetConfiguration: typeof vscode.workspace.getConfiguration;
+
+  beforeEach(() => {
+    fs.mkdirSync(root, { recursive: true });
+    settings = {};
+    originalGetConfiguration = vscode.workspace.getConfiguration;
+    (vscode.workspace as any).getConfiguration = () => ({
+      get: (key: string, defaultValue?: any) => (key in settings ? settings[key] : defaultValue),
+    });
+  });
+
+  afterEach(() => {
+    (vscode.workspace as any).getConfiguration = originalGetConfiguration;
+    (vscode.window as any).visibleTextEditors = [];
+    if (fs.existsSync(root)) fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('matches excluded globs at any depth and below excluded directories', () => {
+    const policy = new WorkspacePolicy(
+      { enableTracking: true, excludePaths: ['*.pem', 'secrets/', 'docs/**/internal-*.md'], enableAISummaries: true, allowRemoteAIProviders: true },
+      root
+    );
+    expect(policy.isExcluded('certs/server.pem')).to.equal(true);
+    expect(policy.isExcluded(path.join(root, 'secrets', 'prod', 'db.yml'))).to.equal(true);
+    expect(policy.isExcluded('docs/internal-plan.md')).to.equal(true);
+    expect(policy.isExcluded('docs/a/b/internal-plan.md')).to.equal(true);
+    expect(policy.isExcluded('docs/public-plan.md')).to.equal(false);
+    expect(policy.isExcluded('src/secrets.ts')).to.equal(false);
+  });
+
+  it('combines settings with .persistent-context.json, the stricter rule winning', () => {
+    settings.excludePaths = ['*.key'];
+    settings.allowRemoteAIProviders = false;
+    fs.writeFileSync(
+      path.join(root, POLICY_FILE),
+      JSON.stringify({ enableAISummaries: false, allowRemoteAIProviders: true, excludePaths: ['customer-data/**'] }),
+      'utf-8'
+    );
+
+    const { rules } = WorkspacePolicy.load(root);
+    expect(rules).to.deep.equal({
+      enableTracking: true,
+      excludePaths: ['*.key', 'customer-data/**'],
+      enableAISummaries: false,
+      allowRemoteAIProviders: false,
+    });
+
+    fs.writeFileSync(path.join(root, POLICY_FILE), '{ "enableTracking": ', 'utf-8');
+    expect(WorkspacePolicy.load(root).rules.enableTracking).to.equal(false);
+  });
+
+  it('leaves excluded paths out of snapshots', async () => {
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.mkdirSync(path.join(root, 'customer-data'));
+    fs.writeFileSync(path.join(root, 'README.md'), '# Demo', 'utf-8');
+    const git = {
+      getCurrentBranch: () => 'main',
+      getRecentCommits: () => [],
+      getStagedFiles: () => ['src/app.ts', 'customer-data/export.csv'],
+      getChangedFiles: () => [' M src/app.ts', 'R  notes.md -> customer-data/notes.md', '?? .env.pem'],
+    } as unknown as GitService;
+    (vscode.window as any).visibleTextEditors = ['src/app.ts', 'customer-data/export.csv'].map((file) => ({
+      document: { fileName: path.join(root, file), languageId: 'plaintext', lineCount: 1 },
+    }));
+
+    const collector = new ContextSnapshotCollector(root, git);
+    collector.setPolicy(new WorkspacePolicy(
+      { enableTracking: true, excludePaths: ['customer-data', '*.pem'], enableAISummaries: true, allowRemoteAIProviders: true },
+      root
+    ));
+    const snapshot = await collector.collect();
+
+    expect(snapshot.openEditors.map((e) => e.path)).to.deep.equal([path.join(root, 'src', 'app.ts')]);
+    expect(snapshot.git.stagedFiles).to.deep.equal(['src/app.ts']);
+    expect(snapshot.git.modifiedFiles).to.deep.equal([' M src/app.ts']);
+    expect(snapshot.projectStructure.directories).to.deep.equal(['src']);
+    expect(snapshot.projectStructure.keyFiles).to.deep.equal(['README.md']);
+  });
+
+  it('keeps remote AI providers out of the chain when they are not allowed', () => {
+    settings.aiProvider = 'auto';
+    settings.aiProviderChain = ['github-models', 'openai', 'ollama'];
+    settings.openaiBaseUrl = 'https://api.openai.com/v1';
+    settings.ollamaEndpoint = 'http://127.0.0.1:11434';
+
+    const ai = new AIService(root);
+    expect(ai.getProviderHealth().map((h) => h.id)).to.deep.equal(['github-models', 'openai', 'ollama']);
+    ai.setPolicy({ enabled: true, allowRemote: false });
+    expect(ai.getProviderHealth().map((h) => h.id)).to.deep.equal(['ollama']);
+    ai.setPolicy({ enabled: false, allowRemote: true });
+    expect(ai.getProviderHealth()).to.deep.equal([]);
+  });
+});
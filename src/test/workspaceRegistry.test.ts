@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkspaceRegistry, WORKSPACE_INFO_FILE } from '../services/workspaceRegistry';
+import { SessionStore } from '../services/sessionStore';
+import { FileService } from '../services/fileService';
+
+describe('WorkspaceRegistry', () => {
+  const root = path.join(process.cwd(), '.test-temp', 'registry');
+  const liveWorkspace = path.join(root, 'projects', 'live');
+
+  const addContextDir = (name: string, workspacePath: string, machineId?: string) => {
+    const dir = path.join(root, 'storage', name);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, WORKSPACE_INFO_FILE), JSON.stringify({ workspacePath, created: '2026-01-01T00:00:00Z', machineId }), 'utf-8');
+    return dir;
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(liveWorkspace, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(root)) fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('summarizes each workspace context directory', () => {
+    const liveDir = addContextDir('live-11111111', liveWorkspace);
+    new SessionStore(new FileService(liveDir)).save({
+      id: '1',
+      name: 'Payments',
+      startTime: new Date(),
+      pausedAt: new Date(),
+      branches: ['main', 'feature/refunds'],
+    });
+    addContextDir('gone-22222222', path.join(root, 'projects', 'gone'));
+    fs.mkdirSync(path.join(root, 'storage', 'not-a-workspace'));
+
+    const [live, gone] = new WorkspaceRegistry(path.join(root, 'storage')).list();
+    expect(live).to.include({ name: 'live', exists: true, branch: 'feature/refunds' });
+    expect(live.session).to.deep.equal({ name: 'Payments', status: 'paused' });
+    expect(live.sizeBytes).to.be.greaterThan(0);
+    expect(live.lastUpdated).to.be.instanceOf(Date);
+    expect(gone).to.include({ name: 'gone', exists: false });
+    expect(gone.session).to.equal(undefined);
+  });
+
+  it('prunes only workspaces whose folder no longer exists', () => {
+    const liveDir = addContextDir('live-11111111', liveWorkspace);
+    const goneDir = addContextDir('gone-22222222', path.join(root, 'projects', 'gone'));
+
+    const removed = new WorkspaceRegistry(path.join(root, 'storage')).prune();
+    expect(removed.map((w) => w.name)).to.deep.equal(['gone']);
+    expect(fs.existsSync(goneDir)).to.equal(false);
+    expect(fs.existsSync(liveDir)).to.equal(true);
+  });
+
+  it('leaves workspaces of other machines alone in a synced storage directory', () => {
+    const goneDir = addContextDir('gone-22222222', path.join(root, 'projects', 'gone'), 'laptop');
+    const otherDir = addContextDir('desktop-33333333', path.join(root, 'elsewhere', 'desktop'), 'desktop');
+    const unknownDir = addContextDir('old-44444444', path.join(root, 'elsewhere', 'old'));
+    fs.mkdirSync(path.join(root, 'storage', '.git'));
+
+    const registry = new WorkspaceRegistry(path.join(root, 'storage'), undefined, 'laptop');
+    expect(registry.list().filter((w) => w.local).map((w) => w.name)).to.deep.equal(['gone']);
+    expect(registry.prune().map((w) => w.name)).to.deep.equal(['gone']);
+    expect(fs.existsSync(goneDir)).to.equal(false);
+    expect(fs.existsSync(otherDir)).to.equal(true);
+    expect(fs.existsSync(unknownDir)).to.equal(true);
+  });
+});
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import { ContextManager } from '../services/contextManager';
+import { ContextTimeline, LoopIteration, LoopRun, LOOP_NOTES_FILE } from '../services/contextTimeline';
+import { DecisionLog, DECISIONS_FILE } from '../services/decisionLog';
+import { PROGRESS_FILE } from '../services/sessionStore';
+import { ActivityTracker } from '../services/activityTracker';
+import { Decision, Session, SessionNote } from '../utils/types';
+
+export type ContextTreeNode =
+  | { type: 'group'; group: 'sessions' | 'decisions' | 'loops' }
+  | { type: 'session'; session: Session }
+  | { type: 'note'; session: Session; note: SessionNote }
+  | { type: 'decision'; decision: Decision }
+  | { type: 'loopRun'; run: LoopRun }
+  | { type: 'iteration'; iteration: LoopIteration };
+
+export const OPEN_CONTEXT_FILE_COMMAND = 'persistent-context.openContextFile';
+
+const GROUP_LABELS = { sessions: 'Sessions', decisions: 'Decisions', loops: 'Loop Runs' };
+
+/**
+ * Sidebar tree of the workspace's sessions (with their notes), decisions and
+ * continuous-loop runs. Session items carry a context value of
+ * `session.current`, `session.paused` or `session.ended` for inline actions.
+ */
+export class ContextTreeProvider implements vscode.TreeDataProvider<ContextTreeNode> {
+  private changeEmitter = new vscode.EventEmitter<ContextTreeNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private contextManager: ContextManager) {}
+
+  refresh() {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getChildren(node?: ContextTreeNode): ContextTreeNode[] {
+    if (!node) {
+      return (['sessions', 'decisions', 'loops'] as const).map((group) => ({ type: 'group', group }));
+    }
+    switch (node.type) {
+      case 'group':
+        if (node.group === 'sessions') {
+          return this.contextManager.getSessions().map((session) => ({ type: 'session', session }));
+        }
+        if (node.group === 'decisions') {
+          return this.contextManager.decisionLog.list().reverse().map((decision) => ({ type: 'decision', decision }));
+        }
+        return this.timeline().loopRuns().reverse().map((run) => ({ type: 'loopRun', run }));
+      case 'session':
+        return (node.session.noteEntries || []).map((note) => ({ type: 'note', session: node.session, note }));
+      case 'loopRun':
+        return node.run.iterations.map((iteration) => ({ type: 'iteration', iteration }));
+      default:
+        return [];
+    }
+  }
+
+  getTreeItem(node: ContextTreeNode): vscode.TreeItem {
+    const { Collapsed, Expanded, None } = vscode.TreeItemCollapsibleState;
+    switch (node.type) {
+      case 'group': {
+        const item = new vscode.TreeItem(GROUP_LABELS[node.group], node.group === 'sessions' ? Expanded : Collapsed);
+        item.contextValue = `group.${node.group}`;
+        return item;
+      }
+      case 'session': {
+        const { session } = node;
+        const isCurrent = this.contextManager.getCurrentSession()?.id === session.id;
+        const status = isCurrent ? 'current' : session.endTime ? 'ended' : 'paused';
+        const item = new vscode.TreeItem(session.name, session.noteEntries?.length ? Collapsed : None);
+        item.id = `session:${session.id}`;
+        item.description = `${status} · ${ActivityTracker.formatDuration(session.activeMs || 0)}`;
+        item.tooltip = [
+          `Started ${session.startTime.toLocaleString()}`,
+          session.endTime ? `Ended ${session.endTime.toLocaleString()}` : session.pausedAt ? `Paused ${session.pausedAt.toLocaleString()}` : '',
+          session.branches?.length ? `Branches: ${session.branches.join(', ')}` : '',
+          session.tags?.length ? `Tags: ${session.tags.join(', ')}` : '',
+        ].filter(Boolean).join('\n');
+        item.iconPath = isCurrent
+          ? new vscode.ThemeIcon('record', new vscode.ThemeColor('charts.green'))
+          : new vscode.ThemeIcon(session.endTime ? 'pass' : 'debug-pause');
+        item.contextValue = `session.${status}`;
+        item.command = this.openCommand(PROGRESS_FILE, `## Session: ${session.name}\n- ID: ${session.id}`);
+        return item;
+      }
+      case 'note': {
+        const item = new vscode.TreeItem(node.note.text.split('\n')[0], None);
+        item.description = node.note.timestamp.toLocaleString();
+        item.tooltip = node.note.text;
+        item.iconPath = new vscode.ThemeIcon('note');
+        item.contextValue = 'note';
+        return item;
+      }
+      case 'decision': {
+        const { decision } = node;
+        const id = DecisionLog.formatId(decision.id);
+        const item = new vscode.TreeItem(`${id}: ${decision.title}`, None);
+        item.description = `${decision.status} · ${decision.date}`;
+        item.tooltip = decision.decision;
+        item.iconPath = new vscode.ThemeIcon(decision.status === 'accepted' ? 'check' : decision.status === 'proposed' ? 'question' : 'circle-slash');
+        item.contextValue = 'decision';
+        item.command = this.openCommand(DECISIONS_FILE, `## ${id}:`);
+        return item;
+      }
+      case 'loopRun': {
+        const { run } = node;
+        const failed = run.iterations.filter((it) => it.status === '❌').length;
+        const item = new vscode.TreeItem(`Run ${run.startTime.toLocaleString()}`, Collapsed);
+        item.description = `${run.iterations.length} iteration(s)${failed > 0 ? `, ${failed} failed` : ''}`;
+        item.iconPath = new vscode.ThemeIcon('sync');
+        item.contextValue = 'loopRun';
+        return item;
+      }
+      case 'iteration': {
+        const { iteration } = node;
+        const item = new vscode.TreeItem(`Iteration ${iteration.number} ${iteration.status || ''}`.trim(), None);
+        item.description = iteration.summary;
+        item.tooltip = [iteration.time.toLocaleString(), iteration.pr ? `PR ${iteration.pr}` : '', iteration.summary || '']
+          .filter(Boolean).join('\n');
+        item.contextValue = 'iteration';
+        item.command = this.openCommand(LOOP_NOTES_FILE, undefined, iteration.line);
+        return item;
+      }
+    }
+  }
+
+  private timeline(): ContextTimeline {
+    return new ContextTimeline(this.contextManager.getFileService());
+  }
+
+  /**
+   * Open a context file at the line of `heading` or at `line`.
+   */
+  private openCommand(fileName: string, heading?: string, line: number = 0): vscode.Command {
+    if (heading) {
+      const content = this.contextManager.getFileService().readFile(fileName);
+      const index = content.indexOf(heading);
+      line = index < 0 ? 0 : content.slice(0, index).split('\n').length - 1;
+    }
+    return { title: 'Open', command: OPEN_CONTEXT_FILE_COMMAND, arguments: [fileName, line] };
+  }
+}
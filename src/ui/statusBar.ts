@@ -1,34 +1,85 @@
 import * as vscode from 'vscode';
+import { ActivityTracker } from '../services/activityTracker';
+
+export const QUICK_ACTIONS_COMMAND = 'persistent-context.quickActions';
+
+/**
+ * What the status bar shows; read from the extension's services on every refresh.
+ */
+export interface StatusBarState {
+  sessionName?: string;
+  activeMs: number;
+  aiProvider: string;
+  aiError: string | null;
+  lastSavedAt?: Date;
+  loopRunning: boolean;
+}
+
+// Keeps the active-time counter moving between session events
+const REFRESH_INTERVAL_MS = 30 * 1000;
 
 export class StatusBarManager {
   private statusBar: vscode.StatusBarItem;
   private outputChannel: vscode.OutputChannel;
+  private refreshTimer: NodeJS.Timeout;
 
-  constructor() {
+  constructor(private getState: () => StatusBarState) {
     this.statusBar = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Right,
       100
     );
+    this.statusBar.command = QUICK_ACTIONS_COMMAND;
     this.statusBar.show();
     this.outputChannel = vscode.window.createOutputChannel('Persistent Code Context');
+    this.refreshTimer = setInterval(() => this.refresh(), REFRESH_INTERVAL_MS);
+    this.refresh();
   }
 
   updateSession(sessionName: string) {
-    this.statusBar.text = `📚 ${sessionName}`;
-    this.statusBar.tooltip = 'Persistent code context session active';
-    // Log to Output channel and Extension Host for verification
-    this.outputChannel.appendLine(`[persistent-context] StatusBar update: ${sessionName}`);
-    console.log(`[persistent-context] StatusBar update: ${sessionName}`);
+    this.refresh();
+    this.log(`StatusBar update: ${sessionName}`);
   }
 
   clearSession() {
-    this.statusBar.text = '▶️ Start Session';
-    this.statusBar.tooltip = 'No active session';
-    this.outputChannel.appendLine('[persistent-context] StatusBar cleared');
-    console.log('[persistent-context] StatusBar cleared');
+    this.refresh();
+    this.log('StatusBar cleared');
+  }
+
+  /** Write a line to the extension's output channel. */
+  log(message: string) {
+    this.outputChannel.appendLine(`[persistent-context] ${message}`);
+  }
+
+  refresh() {
+    const { text, tooltip } = StatusBarManager.render(this.getState());
+    this.statusBar.text = text;
+    this.statusBar.tooltip = tooltip;
+  }
+
+  static render(state: StatusBarState): { text: string; tooltip: string } {
+    const indicators = [
+      state.loopRunning ? '$(sync~spin)' : '',
+      state.aiError ? '$(warning)' : '',
+    ].filter(Boolean).join(' ');
+    const label = state.sessionName
+      ? `📚 ${state.sessionName} · ${ActivityTracker.formatDuration(state.activeMs)}`
+      : '▶️ Start Session';
+
+    const tooltip = [
+      state.sessionName
+        ? `Session: ${state.sessionName} (${ActivityTracker.formatDuration(state.activeMs)} active)`
+        : 'No active session',
+      state.aiError ? `AI: ${state.aiProvider} - ${state.aiError}` : `AI: ${state.aiProvider} - OK`,
+      `Last autosave: ${state.lastSavedAt ? state.lastSavedAt.toLocaleTimeString() : 'not yet'}`,
+      state.loopRunning ? 'Continuous loop running' : '',
+      'Click for quick actions',
+    ].filter(Boolean).join('\n');
+
+    return { text: indicators ? `${label} ${indicators}` : label, tooltip };
   }
 
   dispose() {
+    clearInterval(this.refreshTimer);
     this.statusBar.dispose();
     this.outputChannel.dispose();
   }
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { ContextTimeline, TimelineEvent } from '../services/contextTimeline';
+import { GitService } from '../services/gitService';
+import { OPEN_CONTEXT_FILE_COMMAND } from './contextTreeProvider';
+
+const KIND_LABELS: Record<TimelineEvent['kind'], string> = {
+  session: 'Sessions',
+  update: 'Updates',
+  digest: 'Digests',
+  note: 'Notes',
+  decision: 'Decisions',
+  iteration: 'Loop',
+  commit: 'Commits',
+};
+
+/**
+ * Webview panel rendering the context timeline. Kind and text filtering run
+ * in the webview; clicking an entry opens the underlying file at its line,
+ * or the commit for git entries.
+ */
+export class TimelinePanel {
+  private static current: TimelinePanel | undefined;
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private timeline: ContextTimeline,
+    private contextDir: string,
+    private gitService: GitService
+  ) {
+    panel.onDidDispose(() => {
+      TimelinePanel.current = undefined;
+    });
+    panel.webview.onDidReceiveMessage((message) => this.handleMessage(message));
+  }
+
+  /**
+   * Show the timeline, reusing the open panel if there is one.
+   */
+  static show(timeline: ContextTimeline, contextDir: string, gitService: GitService) {
+    if (TimelinePanel.current) {
+      TimelinePanel.current.timeline = timeline;
+      TimelinePanel.current.contextDir = contextDir;
+      TimelinePanel.current.panel.reveal();
+    } else {
+      const panel = vscode.window.createWebviewPanel('persistentContextTimeline', 'Context Timeline', vscode.ViewColumn.One, {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+      });
+      TimelinePanel.current = new TimelinePanel(panel, timeline, contextDir, gitService);
+    }
+    TimelinePanel.current.render();
+  }
+
+  private render() {
+    this.panel.webview.html = TimelinePanel.html(this.timeline.build(), crypto.randomBytes(16).toString('hex'));
+  }
+
+  private async handleMessage(message: { command: string; file?: string; line?: number; commit?: string }) {
+    try {
+      if (message.command === 'refresh') {
+        this.render();
+      } else if (message.command === 'open' && message.file) {
+        const filePath = path.join(this.contextDir, path.basename(message.file));
+        if (!fs.existsSync(filePath)) {
+          vscode.window.showInformationMessage(`${message.file} no longer exists`);
+          return;
+        }
+        await vscode.commands.executeCommand(OPEN_CONTEXT_FILE_COMMAND, filePath, message.line || 0);
+      } else if (message.command === 'commit' && message.commit) {
+        const content = this.gitService.showCommit(message.commit);
+        if (!content) {
+          vscode.window.showInformationMessage(`Commit ${message.commit} is not available`);
+          return;
+        }
+        const doc = await vscode.workspace.openTextDocument({ content, language: 'git-commit' });
+        vscode.window.showTextDocument(doc, { preview: true });
+      }
+    } catch (e) {
+      console.error('[persistent-context] Timeline action failed:', e);
+    }
+  }
+
+  static html(events: TimelineEvent[], nonce: string): string {
+    const kinds = (Object.keys(KIND_LABELS) as Array<TimelineEvent['kind']>).filter((k) => events.some((e) => e.kind === k));
+    const filters = kinds
+      .map((k) => `<label><input type="checkbox" data-kind="${k}" checked> ${KIND_LABELS[k]}</label>`)
+      .join('\n');
+
+    let lastDay = '';
+    const rows = events
+      .map((e) => {
+        const day = e.time.toLocaleDateString();
+        const dayHeading = day !== lastDay ? `<h2 class="day">${escapeHtml(day)}</h2>` : '';
+        lastDay = day;
+        const target = e.commit
+          ? `data-commit="${escapeHtml(e.commit)}"`
+          : e.file
+            ? `data-file="${escapeHtml(e.file)}" data-line="${e.line ?? 0}"`
+            : '';
+        return `${dayHeading}<div class="event ${e.kind}" data-kind="${e.kind}" ${target}>
+  <span class="time">${escapeHtml(e.time.toLocaleTimeString())}</span>
+  <span class="kind">${KIND_LABELS[e.kind]}</span>
+  <div class="body"><div class="title">${escapeHtml(e.title)}</div>${e.detail ? `<div class="detail">${escapeHtml(e.detail)}</div>` : ''}</div>
+</div>`;
+      })
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<style nonce="${nonce}">
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+  .toolbar { position: sticky; top: 0; background: var(--vscode-editor-background); padding: 8px 0; display: flex; flex-wrap: wrap; gap: 12px; align-items: center; }
+  .toolbar input[type=text] { flex: 1; min-width: 160px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 4px; }
+  .day { font-size: 1em; margin: 16px 0 4px; color: var(--vscode-descriptionForeground); }
+  .event { display: flex; gap: 8px; padding: 4px 6px; border-left: 3px solid var(--vscode-panel-border); cursor: pointer; }
+  .event:hover { background: var(--vscode-list-hoverBackground); }
+  .event.hidden { display: none; }
+  .time { min-width: 90px; color: var(--vscode-descriptionForeground); }
+  .kind { min-width: 80px; font-size: 0.85em; text-transform: uppercase; opacity: 0.8; }
+  .detail { white-space: pre-wrap; opacity: 0.8; font-size: 0.9em; }
+  .session { border-left-color: var(--vscode-charts-blue); }
+  .update, .digest { border-left-color: var(--vscode-charts-green); }
+  .note { border-left-color: var(--vscode-charts-yellow); }
+  .decision { border-left-color: var(--vscode-charts-purple); }
+  .iteration { border-left-color: var(--vscode-charts-orange); }
+  .commit { border-left-color: var(--vscode-charts-red); }
+</style>
+</head>
+<body>
+<div class="toolbar">
+${filters}
+<input type="text" id="search" placeholder="Filter…">
+<button id="refresh">Refresh</button>
+</div>
+${rows || '<p>No context recorded yet.</p>'}
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  const search = document.getElementById('search');
+  const apply = () => {
+    const hidden = new Set([...document.querySelectorAll('input[data-kind]')].filter(c => !c.checked).map(c => c.dataset.kind));
+    const text = search.value.toLowerCase();
+    document.querySelectorAll('.event').forEach(el => {
+      const visible = !hidden.has(el.dataset.kind) && (!text || el.textContent.toLowerCase().includes(text));
+      el.classList.toggle('hidden', !visible);
+    });
+    document.querySelectorAll('.day').forEach(h => {
+      let el = h.nextElementSibling;
+      let any = false;
+      while (el && el.classList.contains('event')) {
+        any = any || !el.classList.contains('hidden');
+        el = el.nextElementSibling;
+      }
+      h.style.display = any ? '' : 'none';
+    });
+  };
+  document.querySelectorAll('input[data-kind]').forEach(c => c.addEventListener('change', apply));
+  search.addEventListener('input', apply);
+  document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+  document.querySelectorAll('.event').forEach(el => el.addEventListener('click', () => {
+    if (el.dataset.commit) {
+      vscode.postMessage({ command: 'commit', commit: el.dataset.commit });
+    } else if (el.dataset.file) {
+      vscode.postMessage({ command: 'open', file: el.dataset.file, line: Number(el.dataset.line) });
+    }
+  }));
+</script>
+</body>
+</html>`;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
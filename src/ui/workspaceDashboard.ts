@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { WorkspaceRegistry, WorkspaceSummary } from '../services/workspaceRegistry';
+
+/**
+ * QuickPick dashboard over every workspace in the common storage directory.
+ */
+export class WorkspaceDashboard {
+  constructor(
+    private registry: WorkspaceRegistry,
+    private currentContextDir: string,
+    private openContextFile: (filePath: string) => Promise<void>
+  ) {}
+
+  async show() {
+    const workspaces = this.registry.list();
+    if (workspaces.length === 0) {
+      vscode.window.showInformationMessage('No workspace context found in the storage directory');
+      return;
+    }
+
+    const missing = workspaces.filter(w => !w.exists && w.local);
+    const items: Array<vscode.QuickPickItem & { workspace?: WorkspaceSummary; prune?: boolean }> = workspaces.map(w => ({
+      label: `${w.contextDir === this.currentContextDir ? '$(star-full) ' : ''}${w.name}${w.exists ? '' : w.local ? ' (missing)' : ' (other machine)'}`,
+      description: [
+        w.branch,
+        w.session ? `${w.session.name} (${w.session.status})` : 'No sessions',
+      ].filter(Boolean).join(' · '),
+      detail: `Updated ${w.lastUpdated ? w.lastUpdated.toLocaleString() : 'never'} · ${WorkspaceRegistry.formatSize(w.sizeBytes)} · ${w.workspacePath || 'unknown path'}`,
+      workspace: w,
+    }));
+    if (missing.length > 0) {
+      items.push({ label: `$(trash) Prune ${missing.length} missing workspace(s)`, prune: true });
+    }
+
+    const choice = await vscode.window.showQuickPick(items, {
+      placeHolder: `${workspaces.length} workspace(s) with persisted context`,
+      matchOnDescription: true,
+      matchOnDetail: true,
+    });
+    if (!choice) return;
+    if (choice.prune) {
+      await this.prune(missing);
+    } else if (choice.workspace) {
+      await this.open(choice.workspace);
+    }
+  }
+
+  private async prune(missing: WorkspaceSummary[]) {
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete the stored context of ${missing.length} workspace(s) whose folder no longer exists?\n\n${missing.map(w => w.workspacePath || w.contextDir).join('\n')}`,
+      { modal: true },
+      'Delete'
+    );
+    if (confirm !== 'Delete') return;
+    const removed = this.registry.prune();
+    vscode.window.showInformationMessage(`✓ Pruned ${removed.length} workspace context(s)`);
+  }
+
+  private async open(workspace: WorkspaceSummary) {
+    const actions = [
+      { label: 'Open Active Context', file: 'activeContext.md' },
+      { label: 'Open Session History', file: 'progress.md' },
+      { label: 'Open Decisions', file: 'decisions.md' },
+      ...(workspace.exists && workspace.contextDir !== this.currentContextDir
+        ? [{ label: 'Open Workspace in New Window', file: '' }]
+        : []),
+    ];
+    const action = await vscode.window.showQuickPick(actions, { placeHolder: workspace.name });
+    if (!action) return;
+
+    if (!action.file) {
+      await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(workspace.workspacePath), true);
+      return;
+    }
+    const filePath = path.join(workspace.contextDir, action.file);
+    if (!fs.existsSync(filePath)) {
+      vscode.window.showInformationMessage(`${action.file} does not exist for ${workspace.name}`);
+      return;
+    }
+    await this.openContextFile(filePath);
+  }
+}
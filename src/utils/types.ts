@@ -1,9 +1,44 @@
+export interface SessionNote {
+  timestamp: Date;
+  text: string;
+}
+
 export interface Session {
   id: string;
   name: string;
   startTime: Date;
   endTime?: Date;
   notes?: string;
+  noteEntries?: SessionNote[];
+  // Timestamps of activeContext.md updates written during the session, as in their headings
+  updates?: string[];
+  // Set while the session is paused (explicitly, or because VS Code closed)
+  pausedAt?: Date;
+  // Active (non-idle) time in milliseconds, in total and per local day (YYYY-MM-DD)
+  activeMs?: number;
+  activeByDay?: Record<string, number>;
+  // Merge links: a merged session lists its sources, each source points back
+  mergedFrom?: string[];
+  mergedInto?: string;
+  // Backup of the session index taken just before the merge, used by unmerge
+  mergeBackup?: string;
+  // User tags; branches and issue/ticket ids are detected from git
+  tags?: string[];
+  branches?: string[];
+  issues?: string[];
+  // Branch this session follows when sessions switch with the git branch
+  boundBranch?: string;
+  // End-of-session retrospective (AI-written, or built from the recorded activity)
+  retrospective?: string;
+}
+
+export interface SessionFilter {
+  tag?: string;
+  branch?: string;
+  issue?: string;
+  // Sessions overlapping this range (inclusive)
+  from?: Date;
+  to?: Date;
 }
 
 export interface ProjectContext {
@@ -13,3 +48,17 @@ export interface ProjectContext {
   projectStructure: string;
   session: Session;
 }
+
+export type DecisionStatus = 'proposed' | 'accepted' | 'rejected' | 'deprecated' | 'superseded';
+
+export interface Decision {
+  id: number;
+  title: string;
+  date: string;
+  status: DecisionStatus;
+  context: string;
+  decision: string;
+  consequences: string;
+  supersedes?: number[];
+  supersededBy?: number;
+}